@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Logger, TagScore, TagSyncConfig } from './types';
+
+export interface CachedResponse {
+  key: string;
+  model: string;
+  createdAt: string;
+  raw: string | null;
+  tags: string[];
+  scores?: TagScore[];
+  remove?: string[];
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, entry: Omit<CachedResponse, 'key' | 'createdAt'>): Promise<void>;
+}
+
+export function buildCacheKey(payload: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(payload), 'utf8').digest('hex');
+}
+
+export function createResponseCache(
+  config: Pick<TagSyncConfig, 'cacheDir' | 'cacheTtlMs'>,
+  logger: Logger
+): ResponseCache | null {
+  const { cacheDir, cacheTtlMs } = config;
+  if (!cacheDir) return null;
+
+  const entryPath = (key: string) => path.join(cacheDir, key.slice(0, 2), `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const raw = await fs.readFile(entryPath(key), 'utf8');
+        const entry = JSON.parse(raw) as CachedResponse;
+        const age = Date.now() - Date.parse(entry.createdAt);
+        if (cacheTtlMs > 0 && !(age <= cacheTtlMs)) {
+          logger.debug(`Cache entry ${key.slice(0, 12)} expired.`);
+          return null;
+        }
+        if (!Array.isArray(entry.tags)) return null;
+        return entry;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn?.(`Ignoring unreadable cache entry ${key.slice(0, 12)}: ${message}`);
+        }
+        return null;
+      }
+    },
+    async set(key, entry) {
+      const target = entryPath(key);
+      const payload: CachedResponse = { key, createdAt: new Date().toISOString(), ...entry };
+      try {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, JSON.stringify(payload, null, 2), 'utf8');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn?.(`Failed to write cache entry ${key.slice(0, 12)}: ${message}`);
+      }
+    }
+  };
+}
+
+export interface EmbeddingCache {
+  get(key: string): Promise<number[] | null>;
+  set(key: string, model: string, embedding: number[]): Promise<void>;
+}
+
+/**
+ * 向量缓存与响应缓存共用缓存目录（`embeddings/` 子目录）。同一模型对同一输入的向量是确定的，因此不设过期时间。
+ */
+export function createEmbeddingCache(config: Pick<TagSyncConfig, 'cacheDir'>, logger: Logger): EmbeddingCache | null {
+  const { cacheDir } = config;
+  if (!cacheDir) return null;
+
+  const entryPath = (key: string) => path.join(cacheDir, 'embeddings', key.slice(0, 2), `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const entry = JSON.parse(await fs.readFile(entryPath(key), 'utf8')) as { embedding?: unknown };
+        return Array.isArray(entry.embedding) ? (entry.embedding as number[]) : null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn?.(`Ignoring unreadable embedding cache entry ${key.slice(0, 12)}: ${message}`);
+        }
+        return null;
+      }
+    },
+    async set(key, model, embedding) {
+      const target = entryPath(key);
+      try {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, JSON.stringify({ key, model, createdAt: new Date().toISOString(), embedding }), 'utf8');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn?.(`Failed to write embedding cache entry ${key.slice(0, 12)}: ${message}`);
+      }
+    }
+  };
+}
@@ -1,7 +1,11 @@
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
-import { ConfigOverrides, TagSyncConfig, TaxonomyRules } from './types';
+import { buildAliasLookup } from './taxonomy';
+import { getProvider, PROVIDER_NAMES } from './providers';
+import { DEFAULT_PROMPT_TEMPLATE, parsePromptTemplate } from './prompts';
+import { defaultContentBudget } from './tokens';
+import { CategoriesMode, ConfigOverrides, DiffFormat, LongPostStrategy, LowConfidenceMode, ProviderName, PromptTemplate, ResponseFormatMode, TagAliasDefinitions, TagAliasLookup, TagSyncConfig, TaxonomyRules } from './types';
 import { parseJsonSilent } from './utils';
 
 let dotenvLoaded = false;
@@ -76,6 +80,77 @@ function parseHeaders(raw: string | undefined | null): Record<string, string> {
   return Object.fromEntries(entries);
 }
 
+const RESPONSE_FORMATS: ResponseFormatMode[] = ['text', 'json_object', 'json_schema', 'tool'];
+
+function parseResponseFormat(raw: string | undefined | null): ResponseFormatMode {
+  const normalized = (raw ?? '').trim().toLowerCase().replace(/-/g, '_');
+  if (!normalized) return 'text';
+  if (!RESPONSE_FORMATS.includes(normalized as ResponseFormatMode)) {
+    throw new Error(`Tag Sync: Unsupported response format "${raw}". Expected one of: ${RESPONSE_FORMATS.join(', ')}.`);
+  }
+  return normalized as ResponseFormatMode;
+}
+
+function parseProvider(raw: string | undefined | null): ProviderName {
+  const normalized = (raw ?? '').trim().toLowerCase();
+  if (!normalized || normalized === 'openai-compatible') return 'openai';
+  if (!PROVIDER_NAMES.includes(normalized as ProviderName)) {
+    throw new Error(`Tag Sync: Unsupported provider "${raw}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+  return normalized as ProviderName;
+}
+
+function parseCategoriesMode(raw: string | undefined | null): CategoriesMode {
+  const normalized = (raw ?? '').trim().toLowerCase();
+  if (!normalized || ['off', 'false', 'no', '0'].includes(normalized)) return 'off';
+  if (normalized === 'primary' || normalized === 'all') return normalized;
+  throw new Error(`Tag Sync: Unsupported categories mode "${raw}". Expected one of: off, primary, all.`);
+}
+
+function parseLongPostStrategy(raw: string | undefined | null): LongPostStrategy {
+  const normalized = (raw ?? '').trim().toLowerCase();
+  if (!normalized) return 'outline';
+  if (normalized === 'chunk' || normalized === 'outline') return normalized;
+  throw new Error(`Tag Sync: Unsupported long post strategy "${raw}". Expected one of: chunk, outline.`);
+}
+
+const DIFF_FORMATS: DiffFormat[] = ['text', 'json', 'markdown'];
+
+function parseDiffFormat(raw: string | undefined | null): DiffFormat {
+  const normalized = (raw ?? '').trim().toLowerCase();
+  if (!normalized) return 'text';
+  if (normalized === 'md') return 'markdown';
+  if (!DIFF_FORMATS.includes(normalized as DiffFormat)) {
+    throw new Error(`Tag Sync: Unsupported diff format "${raw}". Expected one of: ${DIFF_FORMATS.join(', ')}.`);
+  }
+  return normalized as DiffFormat;
+}
+
+function parseLowConfidenceMode(raw: string | undefined | null): LowConfidenceMode {
+  const normalized = (raw ?? '').trim().toLowerCase();
+  if (!normalized) return 'drop';
+  if (normalized === 'drop' || normalized === 'flag') return normalized;
+  throw new Error(`Tag Sync: Unsupported low confidence mode "${raw}". Expected one of: drop, flag.`);
+}
+
+function parseConfidence(raw: number | string | undefined | null, fallback: number): number {
+  if (raw === undefined || raw === null || String(raw).trim() === '') return fallback;
+  const value = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error(`Tag Sync: Confidence threshold must be a number between 0 and 1, got "${raw}".`);
+  }
+  return value;
+}
+
+function parseTagWeight(raw: string | undefined | null, fallback: number): number {
+  if (raw === undefined || raw === null || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error(`Tag Sync: TAG_SYNC_RELATED_TAG_WEIGHT must be a number between 0 and 1, got "${raw}".`);
+  }
+  return value;
+}
+
 function resolvePath(baseDir: string, target: string): string {
   if (!target) return baseDir;
   if (path.isAbsolute(target)) return target;
@@ -90,13 +165,59 @@ function loadTaxonomyRules(configPath: string | undefined | null, workspaceRoot:
   if (!fs.existsSync(resolved)) {
     throw new Error(`Tag Sync: Taxonomy config path not found: ${resolved}`);
   }
+  let parsed: unknown;
+  try {
+    const raw = fs.readFileSync(resolved, 'utf8');
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to parse taxonomy rules from ${resolved}: ${message}. Run \`taxonomy lint\` for details.`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Tag Sync: Taxonomy rules in ${resolved} must be an object of category -> rule. Run \`taxonomy lint\` for details.`);
+  }
+  return parsed as TaxonomyRules;
+}
+
+function loadPromptTemplate(configPath: string | undefined | null, workspaceRoot: string): PromptTemplate {
+  if (!configPath) {
+    return DEFAULT_PROMPT_TEMPLATE;
+  }
+  const resolved = resolvePath(workspaceRoot, configPath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Tag Sync: Prompt template path not found: ${resolved}`);
+  }
+  let parsed: unknown;
   try {
     const raw = fs.readFileSync(resolved, 'utf8');
-    return JSON.parse(raw) as TaxonomyRules;
+    parsed = JSON.parse(raw);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Tag Sync: Failed to parse taxonomy rules from ${resolved}: ${message}`);
+    throw new Error(`Tag Sync: Failed to parse prompt template from ${resolved}: ${message}`);
   }
+  return parsePromptTemplate(parsed, resolved);
+}
+
+function loadTagAliases(configPath: string | undefined | null, workspaceRoot: string): TagAliasLookup {
+  if (!configPath) {
+    return {};
+  }
+  const resolved = resolvePath(workspaceRoot, configPath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Tag Sync: Tag aliases path not found: ${resolved}`);
+  }
+  let definitions: TagAliasDefinitions;
+  try {
+    const raw = fs.readFileSync(resolved, 'utf8');
+    definitions = JSON.parse(raw) as TagAliasDefinitions;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to parse tag aliases from ${resolved}: ${message}`);
+  }
+  if (!definitions || typeof definitions !== 'object' || Array.isArray(definitions)) {
+    throw new Error(`Tag Sync: Tag aliases in ${resolved} must be an object of canonical tag -> variants.`);
+  }
+  return buildAliasLookup(definitions);
 }
 
 export function loadConfig(overrides: ConfigOverrides = {}): TagSyncConfig {
@@ -109,23 +230,83 @@ export function loadConfig(overrides: ConfigOverrides = {}): TagSyncConfig {
   const postRoot = resolvePath(workspaceRoot, postRootInput);
   const tagsJsonInput = overrides.tagsJson ?? process.env.TAG_SYNC_TAGS_JSON ?? 'tags.json';
   const tagsJsonPath = resolvePath(workspaceRoot, tagsJsonInput);
+  const stateJsonInput = overrides.stateJson ?? process.env.TAG_SYNC_STATE_JSON ?? 'tags.state.json';
+  const stateJsonPath = resolvePath(workspaceRoot, stateJsonInput);
+  const reviewJsonInput = overrides.reviewJson ?? process.env.TAG_SYNC_REVIEW_JSON ?? 'tags.review.json';
+  const reviewJsonPath = resolvePath(workspaceRoot, reviewJsonInput);
+  const categoriesJsonInput =
+    overrides.categoriesJson ?? process.env.TAG_SYNC_CATEGORIES_JSON ?? path.join(path.dirname(tagsJsonPath), 'categories.json');
+  const categoriesJsonPath = resolvePath(workspaceRoot, categoriesJsonInput);
+  const scoresJsonInput =
+    overrides.scoresJson ?? process.env.TAG_SYNC_SCORES_JSON ?? path.join(path.dirname(tagsJsonPath), 'tags.scores.json');
+  const scoresJsonPath = resolvePath(workspaceRoot, scoresJsonInput);
+  const relatedJsonInput =
+    overrides.relatedJson ?? process.env.TAG_SYNC_RELATED_JSON ?? path.join(path.dirname(tagsJsonPath), 'related.json');
+  const relatedJsonPath = resolvePath(workspaceRoot, relatedJsonInput);
+  const pagesDir = resolvePath(workspaceRoot, overrides.pagesDir ?? process.env.TAG_SYNC_PAGES_DIR ?? path.join('source', 'tags'));
+  const categoriesMode = parseCategoriesMode(overrides.categoriesMode ?? process.env.TAG_SYNC_CATEGORIES);
+  const provider = parseProvider(overrides.provider ?? process.env.TAG_SYNC_PROVIDER);
+  const providerDefaults = getProvider(provider);
   const apiKey = overrides.apiKey ?? process.env.TAG_SYNC_API_KEY ?? '';
-  const model = overrides.model ?? process.env.TAG_SYNC_MODEL ?? 'gpt-4o-mini';
-  const baseUrl = (overrides.baseUrl ?? process.env.TAG_SYNC_BASE_URL ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+  const model = overrides.model ?? process.env.TAG_SYNC_MODEL ?? providerDefaults.defaultModel;
+  const baseUrl = (overrides.baseUrl ?? process.env.TAG_SYNC_BASE_URL ?? providerDefaults.defaultBaseUrl).replace(/\/$/, '');
   const proxyCandidate = overrides.proxyUrl ?? process.env.TAG_SYNC_PROXY ?? process.env.HTTPS_PROXY ?? process.env.HTTP_PROXY ?? '';
   const proxyUrl = typeof proxyCandidate === 'string' && proxyCandidate.trim().length > 0 ? proxyCandidate.trim() : null;
   const language = overrides.language ?? process.env.TAG_SYNC_LANGUAGE ?? 'zh';
   const dryRun = overrides.dryRun ?? parseBoolean(process.env.TAG_SYNC_DRY_RUN, false);
+  const diffFormat = parseDiffFormat(overrides.diffFormat ?? process.env.TAG_SYNC_DIFF_FORMAT);
+  const diffFile = overrides.diffFile ? resolvePath(runtimeCwd, overrides.diffFile) : null;
   const includeDrafts = overrides.includeDrafts ?? parseBoolean(process.env.TAG_SYNC_INCLUDE_DRAFTS, false);
   const filter = overrides.filter ?? process.env.TAG_SYNC_FILTER ?? '';
+  if (overrides.since !== undefined && !overrides.since.trim()) {
+    throw new Error('Tag Sync: --since requires a git ref, e.g. --since=origin/main.');
+  }
+  const since = overrides.since?.trim() || null;
+  const gitSelection =
+    since || overrides.staged || overrides.untracked
+      ? { since, staged: overrides.staged ?? false, untracked: overrides.untracked ?? false }
+      : null;
   const timeoutSeconds = overrides.timeoutSeconds ?? process.env.TAG_SYNC_TIMEOUT ?? 30;
   const timeoutMs = parseInteger(timeoutSeconds, 30) * 1000;
   const maxConcurrencyRaw = overrides.maxConcurrency ?? process.env.TAG_SYNC_MAX_CONCURRENCY ?? 3;
   const maxConcurrency = Math.max(1, parseInteger(maxConcurrencyRaw, 3));
   const sortTags = overrides.sortTags ?? parseBoolean(process.env.TAG_SYNC_SORT_TAGS, true);
   const debug = overrides.debug ?? parseBoolean(process.env.TAG_SYNC_DEBUG, false);
-  const taxonomyRules = loadTaxonomyRules(overrides.taxonomyPath ?? process.env.TAG_SYNC_TAXONOMY_JSON, workspaceRoot);
+  const taxonomyInput = overrides.taxonomyPath ?? process.env.TAG_SYNC_TAXONOMY_JSON;
+  const taxonomyRules = overrides.loadTaxonomy === false ? null : loadTaxonomyRules(taxonomyInput, workspaceRoot);
+  const taxonomyPath = taxonomyInput ? resolvePath(workspaceRoot, taxonomyInput) : null;
+  const tagAliases = loadTagAliases(overrides.aliasesPath ?? process.env.TAG_SYNC_ALIASES_JSON, workspaceRoot);
+  const vocabularyTokenBudget = Math.max(
+    0,
+    parseInteger(overrides.vocabularyTokenBudget ?? process.env.TAG_SYNC_VOCABULARY_TOKENS, 800)
+  );
+  const strictVocabulary = overrides.strictVocabulary ?? parseBoolean(process.env.TAG_SYNC_STRICT_VOCABULARY, false);
+  const allowNewTags = overrides.allowNewTags ?? parseBoolean(process.env.TAG_SYNC_ALLOW_NEW_TAGS, false);
+  const responseFormat = parseResponseFormat(overrides.responseFormat ?? process.env.TAG_SYNC_RESPONSE_FORMAT);
+  const promptInput = overrides.promptFile ?? process.env.TAG_SYNC_PROMPT_FILE;
+  const promptTemplate = loadPromptTemplate(promptInput, workspaceRoot);
+  const promptFile = promptInput ? resolvePath(workspaceRoot, promptInput) : null;
+  const tagScores = overrides.tagScores ?? parseBoolean(process.env.TAG_SYNC_TAG_SCORES, false);
+  const minConfidence = parseConfidence(overrides.minConfidence ?? process.env.TAG_SYNC_MIN_CONFIDENCE, 0.5);
+  const lowConfidence = parseLowConfidenceMode(overrides.lowConfidence ?? process.env.TAG_SYNC_LOW_CONFIDENCE);
+  const prune = overrides.prune ?? parseBoolean(process.env.TAG_SYNC_PRUNE, false);
+  const maxTags = Math.max(0, parseInteger(overrides.maxTags ?? process.env.TAG_SYNC_MAX_TAGS, 0));
+  const minKeptTags = Math.max(0, parseInteger(overrides.minKeptTags ?? process.env.TAG_SYNC_MIN_KEPT_TAGS, 1));
+  const backups = Math.max(0, parseInteger(overrides.backups ?? process.env.TAG_SYNC_BACKUPS, 0));
+  const cacheEnabled = overrides.cache ?? parseBoolean(process.env.TAG_SYNC_CACHE, true);
+  const cacheDirInput = overrides.cacheDir ?? process.env.TAG_SYNC_CACHE_DIR ?? '.cache/tag-sync';
+  const cacheDir = cacheEnabled && cacheDirInput.trim() ? resolvePath(workspaceRoot, cacheDirInput.trim()) : null;
+  const cacheTtlSeconds = overrides.cacheTtlSeconds ?? process.env.TAG_SYNC_CACHE_TTL ?? 30 * 24 * 3600;
+  const cacheTtlMs = Math.max(0, parseInteger(cacheTtlSeconds, 30 * 24 * 3600)) * 1000;
+  const contentTokenBudgetRaw = overrides.contentTokenBudget ?? process.env.TAG_SYNC_CONTENT_TOKENS;
+  const contentTokenBudget = Math.max(256, parseInteger(contentTokenBudgetRaw, defaultContentBudget(model)));
+  const longPostStrategy = parseLongPostStrategy(overrides.longPostStrategy ?? process.env.TAG_SYNC_LONG_POST_STRATEGY);
   const extraHeaders = parseHeaders(overrides.extraHeaders ?? process.env.TAG_SYNC_EXTRA_HEADERS);
+  const embeddingBaseUrl = (process.env.TAG_SYNC_EMBEDDING_BASE_URL || baseUrl).replace(/\/$/, '');
+  const embeddingApiKey = process.env.TAG_SYNC_EMBEDDING_API_KEY || apiKey;
+  const embeddingModel = process.env.TAG_SYNC_EMBEDDING_MODEL || 'text-embedding-3-small';
+  const relatedLimit = Math.max(1, parseInteger(overrides.relatedLimit ?? process.env.TAG_SYNC_RELATED_COUNT, 5));
+  const relatedTagWeight = parseTagWeight(process.env.TAG_SYNC_RELATED_TAG_WEIGHT, 0.3);
 
   if (!fs.existsSync(postRoot)) {
     throw new Error(`Tag Sync: Post root directory not found: ${postRoot}`);
@@ -138,19 +319,60 @@ export function loadConfig(overrides: ConfigOverrides = {}): TagSyncConfig {
     postRootRaw: path.relative(workspaceRoot, postRoot) || postRoot,
     tagsJsonPath,
     tagsJsonRaw: path.relative(workspaceRoot, tagsJsonPath) || tagsJsonPath,
+    stateJsonPath,
+    stateJsonRaw: path.relative(workspaceRoot, stateJsonPath) || stateJsonPath,
+    reviewJsonPath,
+    reviewJsonRaw: path.relative(workspaceRoot, reviewJsonPath) || reviewJsonPath,
+    categoriesJsonPath,
+    categoriesJsonRaw: path.relative(workspaceRoot, categoriesJsonPath) || categoriesJsonPath,
+    scoresJsonPath,
+    scoresJsonRaw: path.relative(workspaceRoot, scoresJsonPath) || scoresJsonPath,
+    relatedJsonPath,
+    relatedJsonRaw: path.relative(workspaceRoot, relatedJsonPath) || relatedJsonPath,
+    pagesDir,
+    pagesDirRaw: path.relative(workspaceRoot, pagesDir) || pagesDir,
+    categoriesMode,
+    provider,
     apiKey,
     model,
     baseUrl,
   proxyUrl,
     language,
     dryRun,
+    diffFormat,
+    diffFile,
     includeDrafts,
     filter,
+    gitSelection,
     timeoutMs,
     maxConcurrency,
     sortTags,
     debug,
+    taxonomyPath,
     taxonomyRules,
-    extraHeaders
+    tagAliases,
+    vocabularyTokenBudget,
+    strictVocabulary,
+    allowNewTags,
+    responseFormat,
+    promptFile,
+    promptTemplate,
+    tagScores,
+    minConfidence,
+    lowConfidence,
+    prune,
+    maxTags,
+    minKeptTags,
+    backups,
+    cacheDir,
+    cacheTtlMs,
+    contentTokenBudget,
+    longPostStrategy,
+    extraHeaders,
+    embeddingBaseUrl,
+    embeddingApiKey,
+    embeddingModel,
+    relatedLimit,
+    relatedTagWeight
   };
 }
@@ -0,0 +1,166 @@
+import { colorize } from './logger';
+import { DiffFormat, Logger, TagsMap, TagSyncConfig } from './types';
+import { writeFileAtomic } from './utils';
+
+export type TagDiffStatus = 'created' | 'updated' | 'deleted';
+
+export interface TagDiffEntry {
+  path: string;
+  status: TagDiffStatus;
+  before: string[];
+  after: string[];
+  added: string[];
+  removed: string[];
+  /** front-matter 中 categories 的变化，分类路径以 ` > ` 连接；分类未改动时省略 */
+  categories?: { before: string[]; after: string[] };
+}
+
+function difference(from: string[], to: string[]): string[] {
+  const keys = new Set(to.map((tag) => tag.toLowerCase()));
+  return from.filter((tag) => !keys.has(tag.toLowerCase()));
+}
+
+export function buildDiffEntry(relativePath: string, before: string[] | undefined, after: string[] | undefined): TagDiffEntry {
+  const previous = before ?? [];
+  const next = after ?? [];
+  return {
+    path: relativePath,
+    status: before === undefined ? 'created' : after === undefined ? 'deleted' : 'updated',
+    before: previous,
+    after: next,
+    added: difference(next, previous),
+    removed: difference(previous, next)
+  };
+}
+
+/**
+ * 将 `buildDiff` 的 updated / removed 拆分转换为逐篇文章的标签差异。
+ */
+export function buildTagDiffEntries(
+  existing: TagsMap,
+  next: TagsMap,
+  updatedPaths: string[],
+  removedPaths: string[]
+): TagDiffEntry[] {
+  return [
+    ...updatedPaths.map((relativePath) => buildDiffEntry(relativePath, existing[relativePath], next[relativePath])),
+    ...removedPaths.map((relativePath) => buildDiffEntry(relativePath, existing[relativePath], undefined))
+  ];
+}
+
+function summarize(entries: TagDiffEntry[]) {
+  const count = (status: TagDiffStatus) => entries.filter((entry) => entry.status === status).length;
+  return {
+    posts: entries.length,
+    created: count('created'),
+    updated: count('updated'),
+    deleted: count('deleted'),
+    addedTags: entries.reduce((sum, entry) => sum + entry.added.length, 0),
+    removedTags: entries.reduce((sum, entry) => sum + entry.removed.length, 0)
+  };
+}
+
+function renderText(entries: TagDiffEntry[], color: boolean): string {
+  const markers: Record<TagDiffStatus, string> = { created: '+', updated: '~', deleted: '-' };
+  const lines: string[] = [];
+  for (const entry of entries) {
+    lines.push(colorize('cyan', `${markers[entry.status]} ${entry.path}`, color));
+    const removed = new Set(entry.removed.map((tag) => tag.toLowerCase()));
+    for (const tag of entry.before) {
+      lines.push(removed.has(tag.toLowerCase()) ? colorize('red', `  - ${tag}`, color) : colorize('dim', `    ${tag}`, color));
+    }
+    for (const tag of entry.added) {
+      lines.push(colorize('green', `  + ${tag}`, color));
+    }
+    if (entry.categories) {
+      const { before, after } = entry.categories;
+      for (const category of before) {
+        lines.push(after.includes(category) ? colorize('dim', `    category: ${category}`, color) : colorize('red', `  - category: ${category}`, color));
+      }
+      for (const category of after.filter((item) => !before.includes(item))) {
+        lines.push(colorize('green', `  + category: ${category}`, color));
+      }
+    }
+    if (entry.status === 'updated' && entry.added.length === 0 && entry.removed.length === 0 && !entry.categories) {
+      lines.push(colorize('dim', '    (order changed)', color));
+    }
+  }
+  const summary = summarize(entries);
+  lines.push(
+    `${summary.posts} post${summary.posts === 1 ? '' : 's'} changed: ${summary.created} created, ${summary.updated} updated, ${summary.deleted} deleted (+${summary.addedTags} / -${summary.removedTags} tags)`
+  );
+  return lines.join('\n');
+}
+
+function withSource(entries: TagDiffEntry[], title: string | undefined) {
+  return title ? entries.map((entry) => ({ source: title, ...entry })) : entries;
+}
+
+function renderMarkdown(entries: TagDiffEntry[], title: string): string {
+  const summary = summarize(entries);
+  const code = (tags: string[]) => tags.map((tag) => `\`${tag.replace(/`/g, "'").replace(/\|/g, '\\|')}\``).join(' ');
+  const labels: Record<TagDiffStatus, string> = { created: 'new', updated: 'updated', deleted: 'deleted' };
+  // 只有存在分类变化时才增加 Categories 列
+  const withCategories = entries.some((entry) => entry.categories);
+  const categoriesCell = (entry: TagDiffEntry) =>
+    entry.categories ? ` ${code(entry.categories.before) || '-'} → ${code(entry.categories.after) || '-'} |` : ' |';
+  const lines = [
+    `### ${title}`,
+    '',
+    `${summary.posts} post${summary.posts === 1 ? '' : 's'} changed: +${summary.addedTags} / -${summary.removedTags} tags.`,
+    '',
+    `| Post | Status | Added | Removed |${withCategories ? ' Categories |' : ''}`,
+    `| --- | --- | --- | --- |${withCategories ? ' --- |' : ''}`,
+    ...entries.map(
+      (entry) =>
+        `| \`${entry.path}\` | ${labels[entry.status]} | ${code(entry.added)} | ${code(entry.removed)} |${withCategories ? categoriesCell(entry) : ''}`
+    )
+  ];
+  return lines.join('\n');
+}
+
+export function renderTagDiff(
+  entries: TagDiffEntry[],
+  format: DiffFormat,
+  options: { color?: boolean; title?: string } = {}
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ summary: summarize(entries), entries: withSource(entries, options.title) }, null, 2);
+    case 'markdown':
+      return renderMarkdown(entries, options.title ?? 'Tag changes');
+    default:
+      return renderText(entries, options.color ?? false);
+  }
+}
+
+// 同一进程内多次写入同一个 diffFile 时（例如 tags.json 与 front-matter 各输出一次）合并各段差异，而不是后者覆盖前者
+const diffFileSections = new Map<string, Array<{ entries: TagDiffEntry[]; title?: string }>>();
+
+function renderDiffFile(sections: Array<{ entries: TagDiffEntry[]; title?: string }>, format: DiffFormat): string {
+  if (format === 'json') {
+    const entries = sections.flatMap((section) => withSource(section.entries, section.title));
+    return JSON.stringify({ summary: summarize(entries), entries }, null, 2);
+  }
+  return sections.map((section) => renderTagDiff(section.entries, format, { title: section.title })).join('\n\n');
+}
+
+/**
+ * 按配置输出差异：指定 `diffFile` 时写入文件（便于粘贴到 PR 评论），否则打印到标准输出。
+ */
+export async function emitTagDiff(
+  entries: TagDiffEntry[],
+  config: Pick<TagSyncConfig, 'diffFormat' | 'diffFile'>,
+  logger: Logger,
+  title?: string
+): Promise<void> {
+  if (config.diffFile) {
+    const sections = diffFileSections.get(config.diffFile) ?? [];
+    sections.push({ entries, title });
+    diffFileSections.set(config.diffFile, sections);
+    await writeFileAtomic(config.diffFile, `${renderDiffFile(sections, config.diffFormat)}\n`);
+    logger.info(`Diff written to ${config.diffFile}`);
+    return;
+  }
+  console.log(renderTagDiff(entries, config.diffFormat, { title, color: Boolean(process.stdout.isTTY) }));
+}
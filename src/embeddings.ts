@@ -0,0 +1,136 @@
+import pLimit from 'p-limit';
+import { Dispatcher } from 'undici';
+import { buildCacheKey, createEmbeddingCache } from './cache';
+import { getDispatcher } from './llm';
+import { Logger, TagSyncConfig } from './types';
+import { sleep } from './utils';
+
+export interface EmbeddingInput {
+  /** 返回结果中的键，通常为文章相对路径 */
+  id: string;
+  text: string;
+}
+
+export interface EmbeddingResult {
+  vectors: Map<string, number[]>;
+  cacheHits: number;
+  requests: number;
+}
+
+type EmbeddingConfig = Pick<
+  TagSyncConfig,
+  | 'embeddingApiKey'
+  | 'embeddingBaseUrl'
+  | 'embeddingModel'
+  | 'extraHeaders'
+  | 'proxyUrl'
+  | 'timeoutMs'
+  | 'maxConcurrency'
+  | 'cacheDir'
+>;
+
+interface EmbeddingsResponse {
+  data?: { index?: number; embedding?: number[] }[];
+}
+
+// 单次请求携带的输入条数，OpenAI 兼容接口均支持数组形式的 input
+const BATCH_SIZE = 32;
+
+async function requestEmbeddings(config: EmbeddingConfig, input: string[]): Promise<number[][]> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+  try {
+    const fetchOptions: RequestInit & { dispatcher?: Dispatcher } = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.embeddingApiKey ? { Authorization: `Bearer ${config.embeddingApiKey}` } : {}),
+        ...config.extraHeaders
+      },
+      body: JSON.stringify({ model: config.embeddingModel, input }),
+      signal: controller.signal
+    };
+    const dispatcher = getDispatcher(config);
+    if (dispatcher) {
+      fetchOptions.dispatcher = dispatcher;
+    }
+    const response = await fetch(`${config.embeddingBaseUrl}/embeddings`, fetchOptions);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+    }
+    const json = (await response.json()) as EmbeddingsResponse;
+    const vectors: number[][] = [];
+    for (const [position, item] of (json.data ?? []).entries()) {
+      if (!Array.isArray(item.embedding)) continue;
+      vectors[item.index ?? position] = item.embedding;
+    }
+    if (input.some((_, index) => !vectors[index])) {
+      throw new Error(`Embedding response contained ${json.data?.length ?? 0} vectors for ${input.length} inputs`);
+    }
+    return vectors;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * 通过 OpenAI 兼容的 `/embeddings` 接口获取向量：先查磁盘缓存，未命中的输入分批请求，失败时带退避重试。
+ */
+export async function embedTexts(
+  inputs: EmbeddingInput[],
+  config: EmbeddingConfig,
+  logger: Logger,
+  retries = 2
+): Promise<EmbeddingResult> {
+  const cache = createEmbeddingCache(config, logger);
+  const vectors = new Map<string, number[]>();
+  const keyOf = (input: EmbeddingInput) =>
+    buildCacheKey({ baseUrl: config.embeddingBaseUrl, model: config.embeddingModel, input: input.text });
+  const pending: EmbeddingInput[] = [];
+  let cacheHits = 0;
+
+  for (const input of inputs) {
+    const cached = await cache?.get(keyOf(input));
+    if (cached) {
+      vectors.set(input.id, cached);
+      cacheHits += 1;
+    } else {
+      pending.push(input);
+    }
+  }
+
+  const batches: EmbeddingInput[][] = [];
+  for (let index = 0; index < pending.length; index += BATCH_SIZE) {
+    batches.push(pending.slice(index, index + BATCH_SIZE));
+  }
+
+  const limit = pLimit(config.maxConcurrency);
+  await Promise.all(
+    batches.map((batch, batchIndex) =>
+      limit(async () => {
+        const label = `${batchIndex + 1}/${batches.length}`;
+        for (let attempt = 0; ; attempt += 1) {
+          try {
+            if (attempt > 0) {
+              await sleep(Math.min(2000 * attempt, 5000));
+            }
+            const result = await requestEmbeddings(config, batch.map((input) => input.text));
+            for (const [index, input] of batch.entries()) {
+              vectors.set(input.id, result[index]);
+              await cache?.set(keyOf(input), config.embeddingModel, result[index]);
+            }
+            return;
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (attempt >= retries) {
+              throw new Error(`Tag Sync: Embedding request ${label} failed after ${attempt + 1} attempts: ${message}`);
+            }
+            logger.warn(`Embedding request ${label} failed (attempt ${attempt + 1}/${retries + 1}): ${message}. Retrying...`);
+          }
+        }
+      })
+    )
+  );
+
+  return { vectors, cacheHits, requests: batches.length };
+}
@@ -0,0 +1,167 @@
+import fs from 'fs/promises';
+import { formatTable } from './stats';
+import { resolveAlias } from './taxonomy';
+import { TagAliasLookup, TagsMap } from './types';
+
+/** 一组待评估的模型 / prompt 配置，未指定的字段沿用当前配置 */
+export interface EvalVariant {
+  name: string;
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  promptFile?: string;
+}
+
+export interface EvalPostResult {
+  expected: string[];
+  predicted: string[];
+  missing: string[];
+  extra: string[];
+}
+
+export interface EvalMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** 每篇文章平均输出的标签数 */
+  avgTags: number;
+  /** 输出标签中不在金标准词表里的比例 */
+  newTagRate: number;
+}
+
+export interface EvalVariantReport {
+  name: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  metrics: EvalMetrics;
+  evaluated: number;
+  /** 所有重试均失败、未计入指标的文章 */
+  failed: string[];
+  posts: Record<string, EvalPostResult>;
+}
+
+export interface EvalReport {
+  createdAt: string;
+  gold: string;
+  posts: number;
+  variants: EvalVariantReport[];
+}
+
+const VARIANT_KEYS: Array<keyof EvalVariant> = ['name', 'provider', 'model', 'baseUrl', 'apiKey', 'promptFile'];
+
+export async function loadEvalVariants(filePath: string): Promise<EvalVariant[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to read eval configs from ${filePath}: ${message}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(`Tag Sync: Eval configs in ${filePath} must be a non-empty array of { name, model, ... } objects.`);
+  }
+  const names = new Set<string>();
+  return parsed.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`Tag Sync: Eval config #${index + 1} in ${filePath} must be an object.`);
+    }
+    const variant: Partial<EvalVariant> = {};
+    for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+      if (!VARIANT_KEYS.includes(key as keyof EvalVariant) || typeof value !== 'string') {
+        throw new Error(`Tag Sync: Unsupported field "${key}" in eval config #${index + 1}. Expected string fields: ${VARIANT_KEYS.join(', ')}.`);
+      }
+      variant[key as keyof EvalVariant] = value;
+    }
+    const name = variant.name?.trim() || variant.model || `config-${index + 1}`;
+    if (names.has(name)) {
+      throw new Error(`Tag Sync: Duplicate eval config name "${name}" in ${filePath}.`);
+    }
+    names.add(name);
+    return { ...variant, name };
+  });
+}
+
+function keysOf(tags: string[], aliases: TagAliasLookup): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const tag of tags) {
+    const resolved = resolveAlias(tag, aliases);
+    if (resolved && !keys.has(resolved.toLowerCase())) keys.set(resolved.toLowerCase(), resolved);
+  }
+  return keys;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * 以金标准为参照对输出标签打分。比较时忽略大小写并先按别名归一；
+ * 精确率、召回率按全部文章的标签累加计算（micro average）。
+ * 金标准中的每篇文章都参与打分，没有输出（生成失败）的文章按空结果计入，失败不会抬高召回率。
+ */
+export function scoreTags(
+  gold: TagsMap,
+  predicted: TagsMap,
+  aliases: TagAliasLookup = {}
+): { metrics: EvalMetrics; posts: Record<string, EvalPostResult> } {
+  const vocabulary = new Set<string>();
+  for (const tags of Object.values(gold)) {
+    for (const key of keysOf(tags, aliases).keys()) vocabulary.add(key);
+  }
+
+  const posts: Record<string, EvalPostResult> = {};
+  let matched = 0;
+  let predictedCount = 0;
+  let expectedCount = 0;
+  let newTags = 0;
+  for (const relativePath of Object.keys(gold)) {
+    const tags = predicted[relativePath] ?? [];
+    const expectedKeys = keysOf(gold[relativePath] ?? [], aliases);
+    const predictedKeys = keysOf(tags, aliases);
+    const hits = Array.from(predictedKeys.keys()).filter((key) => expectedKeys.has(key));
+    matched += hits.length;
+    predictedCount += predictedKeys.size;
+    expectedCount += expectedKeys.size;
+    newTags += Array.from(predictedKeys.keys()).filter((key) => !vocabulary.has(key)).length;
+    posts[relativePath] = {
+      expected: gold[relativePath] ?? [],
+      predicted: tags,
+      missing: Array.from(expectedKeys).filter(([key]) => !predictedKeys.has(key)).map(([, tag]) => tag),
+      extra: Array.from(predictedKeys).filter(([key]) => !expectedKeys.has(key)).map(([, tag]) => tag)
+    };
+  }
+
+  const precision = predictedCount > 0 ? matched / predictedCount : 0;
+  const recall = expectedCount > 0 ? matched / expectedCount : 0;
+  const evaluated = Object.keys(gold).length;
+  return {
+    metrics: {
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+      avgTags: round(evaluated > 0 ? predictedCount / evaluated : 0),
+      newTagRate: round(predictedCount > 0 ? newTags / predictedCount : 0)
+    },
+    posts
+  };
+}
+
+export function renderEvalReport(report: EvalReport): string {
+  const table = formatTable(
+    ['config', 'model', 'prompt', 'precision', 'recall', 'F1', 'avg tags', 'new-tag rate', 'failed'],
+    report.variants.map((variant) => [
+      variant.name,
+      variant.model,
+      variant.promptVersion,
+      variant.metrics.precision.toFixed(3),
+      variant.metrics.recall.toFixed(3),
+      variant.metrics.f1.toFixed(3),
+      variant.metrics.avgTags.toFixed(2),
+      `${(variant.metrics.newTagRate * 100).toFixed(1)}%`,
+      variant.failed.length
+    ])
+  );
+  return `Evaluated ${report.posts} post${report.posts === 1 ? '' : 's'} against ${report.gold}\n${table}`;
+}
@@ -1,16 +1,21 @@
 import fs from 'fs/promises';
 import matter from 'gray-matter';
 import path from 'path';
+import { buildDiffEntry, emitTagDiff, TagDiffEntry } from './diff';
 import { loadPosts } from './loader';
-import { Logger, TagSyncConfig } from './types';
-import { ensureArray, toPosix } from './utils';
+import { CATEGORY_PATH_SEPARATOR, resolvePostCategories } from './taxonomy';
+import { CategoriesMode, CategoryPath, GitSelection, Logger, TagsMap, TagSyncConfig } from './types';
+import { ensureArray, toPosix, writeFileAtomic } from './utils';
 import { readTagsFile } from './writer';
 
 interface FrontmatterSyncOptions {
   dryRun: boolean;
   filter: string;
+  git?: GitSelection | null;
   includeDrafts: boolean;
   sortTags: boolean;
+  categoriesMode?: CategoriesMode;
+  tagsMap?: TagsMap;
 }
 
 export interface FrontmatterSyncResult {
@@ -21,6 +26,25 @@ export interface FrontmatterSyncResult {
   totalEntries: number;
 }
 
+export interface TagDrift {
+  path: string;
+  tagsJson: string[];
+  frontMatter: string[];
+  /** tags.json 中有、front-matter 中缺少的标签 */
+  missingInFrontMatter: string[];
+  /** front-matter 中有、tags.json 中缺少的标签 */
+  missingInTagsJson: string[];
+}
+
+export interface FrontmatterDriftReport {
+  /** 已扫描到但未收录在 tags.json 中的文章 */
+  untracked: string[];
+  /** tags.json 中对应文件已不存在的记录 */
+  stale: string[];
+  mismatched: TagDrift[];
+  checked: number;
+}
+
 function dedupeTags(tags: string[], sort: boolean): string[] {
   const seen = new Map<string, string>();
   for (const raw of tags) {
@@ -48,6 +72,28 @@ function arraysEqual(a: string[], b: string[]): boolean {
   return true;
 }
 
+// Hexo 中扁平数组表示层级路径，嵌套数组表示多个分类
+function toHexoCategories(paths: CategoryPath[]): string[] | string[][] {
+  return paths.length === 1 ? paths[0] : paths;
+}
+
+function readHexoCategories(value: unknown): CategoryPath[] {
+  if (!value) return [];
+  if (Array.isArray(value)) {
+    if (value.some((item) => Array.isArray(item))) {
+      return value.map((item) => ensureArray(item)).filter((item) => item.length > 0);
+    }
+    const path = ensureArray(value);
+    return path.length > 0 ? [path] : [];
+  }
+  const path = ensureArray(value);
+  return path.length > 0 ? [path] : [];
+}
+
+function categoriesEqual(a: CategoryPath[], b: CategoryPath[]): boolean {
+  return a.length === b.length && a.every((path, index) => arraysEqual(path, b[index]));
+}
+
 function formatDateLikeHexo(date: Date): string {
   const pad = (value: number) => value.toString().padStart(2, '0');
   const year = date.getFullYear();
@@ -132,7 +178,7 @@ export async function syncFrontmatterFromTags(
   logger: Logger,
   options: FrontmatterSyncOptions
 ): Promise<FrontmatterSyncResult> {
-  const tagsMap = await readTagsFile(config.tagsJsonPath, logger);
+  const tagsMap = options.tagsMap ?? (await readTagsFile(config.tagsJsonPath, logger));
   const entries = Object.entries(tagsMap);
   const totalEntries = entries.length;
 
@@ -145,7 +191,8 @@ export async function syncFrontmatterFromTags(
     filter: options.filter,
     includeDrafts: options.includeDrafts,
     logger,
-    workspaceRoot: config.workspaceRoot
+    workspaceRoot: config.workspaceRoot,
+    git: options.git
   });
 
   const postMap = new Map(posts.map((post) => [toPosix(post.relativePath), post]));
@@ -153,8 +200,13 @@ export async function syncFrontmatterFromTags(
   const unchanged: string[] = [];
   const missing: string[] = [];
   const filteredOut: string[] = [];
+  const diffEntries: TagDiffEntry[] = [];
 
-  const filterApplied = options.filter.trim().length > 0;
+  const filterApplied = options.filter.trim().length > 0 || Boolean(options.git);
+  const categoriesMode = config.taxonomyRules ? options.categoriesMode ?? 'off' : 'off';
+  if (options.categoriesMode && options.categoriesMode !== 'off' && !config.taxonomyRules) {
+    logger.warn('Categories output requested but TAG_SYNC_TAXONOMY_JSON is not configured; only tags will be written.');
+  }
 
   for (const [rawPath, tagList] of entries) {
     const relativePath = toPosix(rawPath);
@@ -173,13 +225,22 @@ export async function syncFrontmatterFromTags(
 
     const expectedTags = dedupeTags(tagList, options.sortTags);
     const currentTags = dedupeTags(ensureArray(post.frontMatter.tags), options.sortTags);
+    const expectedCategories =
+      categoriesMode === 'off' ? null : resolvePostCategories(expectedTags, config.taxonomyRules, categoriesMode);
+    const categoriesChanged =
+      expectedCategories !== null &&
+      expectedCategories.length > 0 &&
+      !categoriesEqual(expectedCategories, readHexoCategories(post.frontMatter.categories));
 
-    if (arraysEqual(expectedTags, currentTags)) {
+    if (arraysEqual(expectedTags, currentTags) && !categoriesChanged) {
       unchanged.push(relativePath);
       continue;
     }
 
     const dataWithTags = { ...post.frontMatter, tags: expectedTags } as Record<string, unknown>;
+    if (categoriesChanged && expectedCategories) {
+      dataWithTags.categories = toHexoCategories(expectedCategories);
+    }
     const scalarLiterals = extractScalarLiterals(post.frontMatterRaw);
     for (const [key, value] of Object.entries(dataWithTags)) {
       if (value instanceof Date) {
@@ -190,15 +251,31 @@ export async function syncFrontmatterFromTags(
     const serialized = stripTimestampQuotes(matter.stringify(post.content, nextData));
 
     if (options.dryRun) {
-      logger.info(`Dry run: would update tags in ${relativePath}`);
+      logger.debug(`Dry run: would update ${categoriesChanged ? 'tags and categories' : 'tags'} in ${relativePath}`);
+      const entry = buildDiffEntry(relativePath, currentTags, expectedTags);
+      if (categoriesChanged && expectedCategories) {
+        const joinPaths = (paths: CategoryPath[]) => paths.map((item) => item.join(CATEGORY_PATH_SEPARATOR));
+        entry.categories = {
+          before: joinPaths(readHexoCategories(post.frontMatter.categories)),
+          after: joinPaths(expectedCategories)
+        };
+      }
+      diffEntries.push(entry);
     } else {
-      await fs.writeFile(post.absolutePath, serialized, 'utf8');
-      logger.info(`Updated tags in ${relativePath}`);
+      await writeFileAtomic(post.absolutePath, serialized);
+      logger.info(`Updated ${categoriesChanged ? 'tags and categories' : 'tags'} in ${relativePath}`);
     }
 
     updated.push(relativePath);
   }
 
+  if (options.dryRun) {
+    logger.info(`Dry run enabled. ${updated.length} posts would be updated.`);
+    if (diffEntries.length > 0) {
+      await emitTagDiff(diffEntries, config, logger, 'Front-matter tag changes');
+    }
+  }
+
   if (!options.dryRun && updated.length === 0) {
     logger.info('All matching posts already up to date.');
   }
@@ -211,3 +288,94 @@ export async function syncFrontmatterFromTags(
     totalEntries
   };
 }
+
+function tagDifference(from: string[], to: string[]): string[] {
+  const keys = new Set(to.map((tag) => tag.toLowerCase()));
+  return from.filter((tag) => !keys.has(tag.toLowerCase()));
+}
+
+/**
+ * 只读地比较 front-matter 与 tags.json，判定规则与 `syncFrontmatterFromTags` 一致。
+ */
+export async function checkFrontmatterDrift(
+  config: TagSyncConfig,
+  logger: Logger,
+  options: Pick<FrontmatterSyncOptions, 'filter' | 'git' | 'includeDrafts' | 'sortTags'>
+): Promise<FrontmatterDriftReport> {
+  const tagsMap = await readTagsFile(config.tagsJsonPath, logger);
+  const posts = await loadPosts(config.postRoot, {
+    filter: options.filter,
+    includeDrafts: options.includeDrafts,
+    logger,
+    workspaceRoot: config.workspaceRoot,
+    git: options.git
+  });
+
+  const tracked = new Map(Object.entries(tagsMap).map(([rawPath, tags]) => [toPosix(rawPath), tags]));
+  const postPaths = new Set(posts.map((post) => toPosix(post.relativePath)));
+  const untracked: string[] = [];
+  const stale: string[] = [];
+  const mismatched: TagDrift[] = [];
+
+  for (const post of posts) {
+    const relativePath = toPosix(post.relativePath);
+    const tagList = tracked.get(relativePath);
+    if (!Array.isArray(tagList)) {
+      untracked.push(relativePath);
+      continue;
+    }
+    const expectedTags = dedupeTags(tagList, options.sortTags);
+    const currentTags = dedupeTags(ensureArray(post.frontMatter.tags), options.sortTags);
+    if (arraysEqual(expectedTags, currentTags)) continue;
+    mismatched.push({
+      path: relativePath,
+      tagsJson: expectedTags,
+      frontMatter: currentTags,
+      missingInFrontMatter: tagDifference(expectedTags, currentTags),
+      missingInTagsJson: tagDifference(currentTags, expectedTags)
+    });
+  }
+
+  // 被过滤条件或草稿规则排除的文章仍然存在，不视为过期记录
+  for (const relativePath of tracked.keys()) {
+    if (postPaths.has(relativePath)) continue;
+    if (!(await fileExists(path.resolve(config.workspaceRoot, relativePath)))) {
+      stale.push(relativePath);
+    }
+  }
+
+  const byPath = (a: string, b: string) => a.localeCompare(b, 'en-US');
+  return {
+    untracked: untracked.sort(byPath),
+    stale: stale.sort(byPath),
+    mismatched: mismatched.sort((a, b) => byPath(a.path, b.path)),
+    checked: posts.length
+  };
+}
+
+export function hasDrift(report: FrontmatterDriftReport): boolean {
+  return report.untracked.length > 0 || report.stale.length > 0 || report.mismatched.length > 0;
+}
+
+export function renderDriftReport(report: FrontmatterDriftReport, tagsJsonRaw: string): string {
+  const lines: string[] = [];
+  for (const entry of report.untracked) {
+    lines.push(`UNTRACKED  ${entry}  (not in ${tagsJsonRaw})`);
+  }
+  for (const entry of report.stale) {
+    lines.push(`STALE      ${entry}  (file no longer exists)`);
+  }
+  for (const entry of report.mismatched) {
+    const parts = [
+      entry.missingInFrontMatter.length ? `front-matter lacks ${entry.missingInFrontMatter.join(', ')}` : '',
+      entry.missingInTagsJson.length ? `${tagsJsonRaw} lacks ${entry.missingInTagsJson.join(', ')}` : ''
+    ].filter(Boolean);
+    lines.push(`MISMATCH   ${entry.path}  (${parts.length ? parts.join('; ') : 'tag order differs'})`);
+  }
+  lines.push(
+    hasDrift(report)
+      ? `Drift found in ${report.checked} checked posts: ${report.untracked.length} untracked, ${report.stale.length} stale, ${report.mismatched.length} mismatched.`
+      : `Front-matter and ${tagsJsonRaw} are in sync (${report.checked} posts checked).`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,105 @@
+import { execFile } from 'child_process';
+import { GitSelection } from './types';
+
+export interface GitRename {
+  from: string;
+  to: string;
+}
+
+export interface GitChanges {
+  /** 相对 workspaceRoot 的 POSIX 路径 */
+  paths: Set<string>;
+  renames: GitRename[];
+}
+
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = String(stderr).trim() || error.message;
+        reject(new Error(`Tag Sync: git ${args.join(' ')} failed: ${detail}`));
+        return;
+      }
+      resolve(String(stdout));
+    });
+  });
+}
+
+/**
+ * 解析 `git diff --name-status -z` 输出；重命名（R）与复制（C）带有两个路径，删除的文件不计入选择。
+ */
+function parseNameStatus(output: string, changes: GitChanges): void {
+  const fields = output.split('\0');
+  let index = 0;
+  while (index < fields.length) {
+    const status = fields[index];
+    if (!status) {
+      index += 1;
+      continue;
+    }
+    if (status.startsWith('R') || status.startsWith('C')) {
+      const from = fields[index + 1];
+      const to = fields[index + 2];
+      changes.paths.add(to);
+      if (status.startsWith('R')) {
+        changes.renames.push({ from, to });
+      }
+      index += 3;
+      continue;
+    }
+    if (!status.startsWith('D')) {
+      changes.paths.add(fields[index + 1]);
+    }
+    index += 2;
+  }
+}
+
+/**
+ * 使用本地 git 列出符合选择条件的文件，多个条件取并集。
+ * - `since`：自该提交与 HEAD 的分叉点以来（含工作区未提交改动）变更的文件
+ * - `staged`：暂存区中的文件
+ * - `untracked`：未被忽略的未跟踪文件
+ */
+export async function listGitChanges(workspaceRoot: string, selection: GitSelection): Promise<GitChanges> {
+  const changes: GitChanges = { paths: new Set(), renames: [] };
+  if (selection.since) {
+    const base = (await runGit(['merge-base', selection.since, 'HEAD'], workspaceRoot)).trim();
+    parseNameStatus(await runGit(['diff', '--name-status', '-z', '-M', '--relative', base], workspaceRoot), changes);
+  }
+  if (selection.staged) {
+    parseNameStatus(await runGit(['diff', '--cached', '--name-status', '-z', '-M', '--relative'], workspaceRoot), changes);
+  }
+  if (selection.untracked) {
+    const output = await runGit(['ls-files', '--others', '--exclude-standard', '-z'], workspaceRoot);
+    for (const file of output.split('\0')) {
+      if (file) changes.paths.add(file);
+    }
+  }
+  return changes;
+}
+
+export function describeGitSelection(selection: GitSelection): string {
+  return [
+    selection.since ? `changed since ${selection.since}` : '',
+    selection.staged ? 'staged' : '',
+    selection.untracked ? 'untracked' : ''
+  ]
+    .filter(Boolean)
+    .join(' / ');
+}
+
+/**
+ * 将重命名前的记录移动到新路径；新路径已有记录时保留新路径的记录。返回实际移动的重命名。
+ */
+export function moveRenamedEntries<T>(map: Record<string, T>, renames: GitRename[]): GitRename[] {
+  const moved: GitRename[] = [];
+  for (const rename of renames) {
+    if (!(rename.from in map)) continue;
+    if (!(rename.to in map)) {
+      map[rename.to] = map[rename.from];
+      moved.push(rename);
+    }
+    delete map[rename.from];
+  }
+  return moved;
+}
@@ -0,0 +1,49 @@
+import { mergeTags } from './taxonomy';
+import { AliasRewrite, LoadedPost, TagsMap, TagSyncConfig } from './types';
+
+export type ImportMode = 'merge' | 'overwrite';
+
+export interface ImportResult {
+  tagsMap: TagsMap;
+  /** 写入或更新了标签的文章 */
+  imported: string[];
+  /** front-matter 没有标签、因此未写入的文章 */
+  empty: string[];
+  aliased: AliasRewrite[];
+}
+
+/**
+ * 直接以 front-matter 标签构建 tags.json，无需调用模型。
+ * `merge` 模式保留 tags.json 中已有的标签并追加 front-matter 标签；`overwrite` 模式以 front-matter 为准。
+ */
+export function importFrontmatterTags(
+  posts: LoadedPost[],
+  existing: TagsMap,
+  config: Pick<TagSyncConfig, 'sortTags' | 'taxonomyRules' | 'tagAliases'>,
+  mode: ImportMode
+): ImportResult {
+  const tagsMap: TagsMap = { ...existing };
+  // 导入只做归一化与别名改写，不应用 prune 与标签上限
+  const mergeConfig = { sortTags: config.sortTags, taxonomyRules: config.taxonomyRules, tagAliases: config.tagAliases };
+  const imported: string[] = [];
+  const empty: string[] = [];
+  const aliased: AliasRewrite[] = [];
+
+  for (const post of posts) {
+    const historical = mode === 'merge' ? existing[post.relativePath] : undefined;
+    const merge = mergeTags(post.frontMatterTags, [], Array.isArray(historical) ? historical : undefined, mergeConfig);
+    aliased.push(...merge.aliased);
+    if (post.frontMatterTags.length === 0) {
+      // 没有可导入的标签时不写入空记录，留给 generate 补齐
+      empty.push(post.relativePath);
+      if (mode === 'overwrite') {
+        delete tagsMap[post.relativePath];
+      }
+      continue;
+    }
+    tagsMap[post.relativePath] = merge.tags;
+    imported.push(post.relativePath);
+  }
+
+  return { tagsMap, imported, empty, aliased };
+}
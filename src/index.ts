@@ -1,24 +1,97 @@
 #!/usr/bin/env node
 /* eslint-disable no-console */
 
+import fs from 'fs/promises';
+import pLimit from 'p-limit';
+import path from 'path';
 import process from 'process';
-import { loadConfig } from './config';
+import { loadConfig, parseInteger } from './config';
 import { createLogger } from './logger';
 import { loadPosts } from './loader';
-import { generateTags } from './llm';
-import { syncFrontmatterFromTags } from './frontmatter';
-import { readTagsFile, writeTagsFile, writeTagsSnapshot } from './writer';
-import { TagsMap, SyncStatistics, LlmResponse, MergeResult, TagSyncConfig, Logger } from './types';
+import { embedTexts } from './embeddings';
+import { EvalReport, EvalVariant, loadEvalVariants, renderEvalReport, scoreTags } from './eval';
+import { MERGE_SUGGESTION_FORMATS, MergeSuggestionFormat, renderMergeSuggestions, suggestTagMerges } from './merge-suggestions';
+import { buildEmbeddingText, buildRelatedMap, mergeRelatedMap, readRelatedFile, writeRelatedFile } from './related';
+import {
+  buildDescriptionPrompt,
+  buildTagPages,
+  manuallyEditedSections,
+  pagePath,
+  readExistingPage,
+  renderPostsSection,
+  renderRelatedSection,
+  renderTagPage,
+  slugifyTag
+} from './pages';
+import { describeGitSelection, GitChanges, listGitChanges, moveRenamedEntries } from './git';
+import { confirmMergeClusters, generateTags, generateText, renderPostPrompts } from './llm';
+import { checkFrontmatterDrift, hasDrift, renderDriftReport, syncFrontmatterFromTags } from './frontmatter';
+import { readScoresFile, readTagsFile, writeCategoriesFile, writeScoresFile, writeTagsFile, writeTagsSnapshot } from './writer';
+import { buildTagStats, renderStats, StatsFormat } from './stats';
+import { importFrontmatterTags } from './import';
+import { loadRenameMap, renameTags, TagRenameMap } from './rename';
+import { lintTaxonomyFile, renderLintReport } from './taxonomy-lint';
+import { countTagUsage } from './taxonomy';
+import { buildReviewEntry, readReviewSession, removeReviewSession, ReviewEntry, reviewSession, writeReviewSession } from './review';
+import { buildPostState, detectChange, readStateFile, resolvePromptVersion, writeStateFile } from './state';
+import { TagsMap, SyncStatistics, LlmResponse, MergeResult, TagSyncConfig, Logger, ConfigOverrides, RequestCounts } from './types';
+import { toPosix, writeFileAtomic } from './utils';
 
 interface CliOptions {
   dryRun?: boolean;
   includeDrafts?: boolean;
   filter?: string;
+  since?: string;
+  staged?: boolean;
+  untracked?: boolean;
   debug?: boolean;
   full?: boolean;
+  changed?: boolean;
+  review?: boolean;
+  prune?: boolean;
+  diffFormat?: string;
+  diffFile?: string;
+  resume?: boolean;
+  cache?: boolean;
+  categories?: string;
+  strictVocabulary?: boolean;
+  allowNewTags?: boolean;
+  format?: string;
+  minTags?: number;
+  maxTags?: number;
+  top?: number;
+  minScore?: string;
+  llm?: boolean;
+  output?: string;
+  pagesDir?: string;
+  promptFile?: string;
+  gold?: string;
+  configs?: string;
+  backups?: number;
+  from?: string;
+  to?: string;
+  map?: string;
+  applyFrontmatter?: boolean;
+  taxonomy?: string;
+  allowWarnings?: boolean;
+  overwrite?: boolean;
 }
 
-type CommandName = 'generate' | 'apply';
+type CommandName =
+  | 'generate'
+  | 'apply'
+  | 'stats'
+  | 'rename'
+  | 'taxonomy-lint'
+  | 'check'
+  | 'import'
+  | 'related'
+  | 'suggest-merges'
+  | 'pages'
+  | 'prompt-render'
+  | 'eval';
+
+const STATS_FORMATS: StatsFormat[] = ['table', 'json', 'csv'];
 
 const COMMAND_ALIASES = new Map<string, CommandName>([
   ['generate', 'generate'],
@@ -26,7 +99,27 @@ const COMMAND_ALIASES = new Map<string, CommandName>([
   ['frontmatter', 'apply'],
   ['apply', 'apply'],
   ['apply-frontmatter', 'apply'],
-  ['tags-to-frontmatter', 'apply']
+  ['tags-to-frontmatter', 'apply'],
+  ['stats', 'stats'],
+  ['report', 'stats'],
+  ['rename', 'rename'],
+  ['merge-tags', 'rename'],
+  ['import', 'import'],
+  ['import-frontmatter', 'import'],
+  ['check', 'check'],
+  ['verify', 'check'],
+  ['taxonomy lint', 'taxonomy-lint'],
+  ['lint-taxonomy', 'taxonomy-lint'],
+  ['related', 'related'],
+  ['related-posts', 'related'],
+  ['tags suggest-merges', 'suggest-merges'],
+  ['suggest-merges', 'suggest-merges'],
+  ['pages', 'pages'],
+  ['tag-pages', 'pages'],
+  ['prompt render', 'prompt-render'],
+  ['render-prompt', 'prompt-render'],
+  ['eval', 'eval'],
+  ['evaluate', 'eval']
 ]);
 
 function extractCommand(argv: string[]): { command: CommandName; rest: string[] } {
@@ -38,6 +131,13 @@ function extractCommand(argv: string[]): { command: CommandName; rest: string[]
     return { command: 'generate', rest: argv };
   }
   const normalized = first.toLowerCase();
+  // 二级子命令，例如 `taxonomy lint`
+  if (rest.length > 0 && !rest[0].startsWith('--')) {
+    const nested = COMMAND_ALIASES.get(`${normalized} ${rest[0].toLowerCase()}`);
+    if (nested) {
+      return { command: nested, rest: rest.slice(1) };
+    }
+  }
   const mapped = COMMAND_ALIASES.get(normalized);
   if (!mapped) {
     return { command: 'generate', rest: argv };
@@ -60,13 +160,113 @@ function parseArgs(argv: string[]): CliOptions {
       case 'filter':
         options.filter = rawValue ?? '';
         break;
+      case 'since':
+        options.since = rawValue ?? '';
+        break;
+      case 'staged':
+        options.staged = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'untracked':
+        options.untracked = rawValue ? rawValue !== 'false' : true;
+        break;
       case 'debug':
         options.debug = rawValue ? rawValue !== 'false' : true;
         break;
+      case 'strict-vocabulary':
+        options.strictVocabulary = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'allow-new-tags':
+        options.allowNewTags = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'format':
+        options.format = rawValue ?? '';
+        break;
+      case 'min-score':
+        options.minScore = rawValue ?? '';
+        break;
+      case 'llm':
+        options.llm = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'output':
+        options.output = rawValue ?? '';
+        break;
+      case 'gold':
+        options.gold = rawValue ?? '';
+        break;
+      case 'configs':
+        options.configs = rawValue ?? '';
+        break;
+      case 'prompt-file':
+        options.promptFile = rawValue ?? '';
+        break;
+      case 'pages-dir':
+        options.pagesDir = rawValue ?? '';
+        break;
+      case 'top':
+        options.top = parseInteger(rawValue, 5);
+        break;
+      case 'min-tags':
+        options.minTags = parseInteger(rawValue, 3);
+        break;
+      case 'max-tags':
+        options.maxTags = parseInteger(rawValue, 6);
+        break;
+      case 'backups':
+        options.backups = parseInteger(rawValue, 1);
+        break;
+      case 'from':
+        options.from = rawValue ?? '';
+        break;
+      case 'to':
+        options.to = rawValue ?? '';
+        break;
+      case 'map':
+        options.map = rawValue ?? '';
+        break;
+      case 'frontmatter':
+      case 'apply-frontmatter':
+        options.applyFrontmatter = rawValue ? rawValue !== 'false' : true;
+        break;
       case 'full':
       case 'force-full':
         options.full = rawValue ? rawValue !== 'false' : true;
         break;
+      case 'taxonomy':
+        options.taxonomy = rawValue ?? '';
+        break;
+      case 'overwrite':
+        options.overwrite = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'allow-warnings':
+        options.allowWarnings = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'categories':
+        options.categories = rawValue ?? 'primary';
+        break;
+      case 'cache':
+        options.cache = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'no-cache':
+        options.cache = false;
+        break;
+      case 'changed':
+        options.changed = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'diff-format':
+        options.diffFormat = rawValue ?? '';
+        break;
+      case 'diff-file':
+        options.diffFile = rawValue ?? '';
+        break;
+      case 'prune':
+        options.prune = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'review':
+        options.review = rawValue ? rawValue !== 'false' : true;
+        break;
+      case 'resume':
+        options.resume = rawValue ? rawValue !== 'false' : true;
+        break;
       default:
         break;
     }
@@ -76,25 +276,32 @@ function parseArgs(argv: string[]): CliOptions {
 
 function buildStatistics(
   postsCount: number,
-  merges: Map<string, { tags: string[]; added: string[] }>,
-  responses: Map<string, { error?: Error | null; tags: string[] }>
+  merges: Map<string, { tags: string[]; added: string[]; aliased: unknown[]; rejected: string[]; lowConfidence: string[]; removed: string[] }>,
+  responses: Map<string, { error?: Error | null; tags: string[]; cached?: boolean }>,
+  requests: RequestCounts
 ): SyncStatistics {
   let processedPosts = 0;
-  let llmCalls = 0;
   let llmFailures = 0;
   let totalTags = 0;
   let totalNewTags = 0;
+  let totalAliasedTags = 0;
+  let totalRejectedTags = 0;
+  let totalLowConfidenceTags = 0;
+  let totalRemovedTags = 0;
 
   // 统计成功处理的文章（来自 merges）
   for (const [path, merge] of merges.entries()) {
     processedPosts += 1;
     totalTags += merge.tags.length;
     totalNewTags += merge.added.length;
+    totalAliasedTags += merge.aliased.length;
+    totalRejectedTags += merge.rejected.length;
+    totalLowConfidenceTags += merge.lowConfidence.length;
+    totalRemovedTags += merge.removed.length;
   }
 
-  // 统计 LLM 调用次数和失败次数（来自 responses，包含失败的文章）
+  // 失败次数按文章统计；调用次数与缓存命中按实际请求统计（长文分段、重试都会各计一次）
   for (const [, response] of responses.entries()) {
-    llmCalls += 1;
     if (response.error) {
       llmFailures += 1;
     }
@@ -104,24 +311,60 @@ function buildStatistics(
     totalPosts: postsCount,
     processedPosts,
     skippedPosts: postsCount - processedPosts,
-    llmCalls,
+    llmCalls: requests.llmCalls,
     llmFailures,
+    cacheHits: requests.cacheHits,
     totalTags,
-    totalNewTags
+    totalNewTags,
+    totalAliasedTags,
+    totalRejectedTags,
+    totalLowConfidenceTags,
+    totalRemovedTags
   };
 }
 
+function collectAliasRewrites(merges: Map<string, MergeResult>): Record<string, string> {
+  const rewrites: Record<string, string> = {};
+  for (const merge of merges.values()) {
+    for (const { from, to } of merge.aliased) {
+      rewrites[from] = to;
+    }
+  }
+  return rewrites;
+}
+
+/**
+ * 按 git 检测到的重命名，把旧路径下的记录移动到新路径，避免重命名后的文章被当作新文章重新生成。
+ * `gitChanges` 与筛选文章时使用的是同一份结果，每次运行只执行一次 git 命令。
+ */
+function followGitRenames(gitChanges: GitChanges | null, scopedLogger: Logger, ...maps: Record<string, unknown>[]): void {
+  if (!gitChanges) return;
+  const { renames } = gitChanges;
+  const [primary, ...others] = maps;
+  const moved = moveRenamedEntries(primary, renames);
+  for (const map of others) {
+    moveRenamedEntries(map, renames);
+  }
+  for (const { from, to } of moved) {
+    scopedLogger.info(`Following rename ${from} -> ${to}`);
+  }
+}
+
 function sortTagsMap(map: TagsMap): TagsMap {
   return Object.fromEntries(Object.entries(map).sort((a, b) => a[0].localeCompare(b[0], 'en-US')));
 }
 
 async function runGenerate(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
-  scopedLogger.info(`Scanning posts from ${config.postRootRaw}`);
+  const selection = config.gitSelection ? ` (${describeGitSelection(config.gitSelection)})` : '';
+  scopedLogger.info(`Scanning posts from ${config.postRootRaw}${selection}`);
+  const gitChanges = config.gitSelection ? await listGitChanges(config.workspaceRoot, config.gitSelection) : null;
   const posts = await loadPosts(config.postRoot, {
     filter: config.filter,
     includeDrafts: config.includeDrafts,
     logger: scopedLogger,
-    workspaceRoot: config.workspaceRoot
+    workspaceRoot: config.workspaceRoot,
+    git: config.gitSelection,
+    gitChanges
   });
 
   if (posts.length === 0) {
@@ -130,19 +373,45 @@ async function runGenerate(args: CliOptions, config: TagSyncConfig, scopedLogger
   }
 
   const historicalTags = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  const state = await readStateFile(config.stateJsonPath, scopedLogger);
+  const scores = await readScoresFile(config.scoresJsonPath, scopedLogger);
+  followGitRenames(gitChanges, scopedLogger, historicalTags, state, scores);
   const tagsMap: TagsMap = { ...historicalTags };
   let writeChain = Promise.resolve();
   const forceFull = args.full ?? false;
+  const changedOnly = !forceFull && (args.changed ?? false);
+  const promptVersion = resolvePromptVersion(config);
+  // --resume 隐含 --review：继续上次保存的审阅进度，不再调用模型
+  const reviewing = Boolean(args.review || args.resume);
+  const resumed = args.resume ? await readReviewSession(config.reviewJsonPath, scopedLogger) : null;
+  if (args.resume && !resumed) {
+    scopedLogger.warn(`No saved review session found at ${config.reviewJsonRaw}; starting a new review.`);
+  }
+  const reviewEntries: ReviewEntry[] = [];
 
-  const postsToProcess = forceFull
+  const postsToProcess = resumed
+    ? []
+    : forceFull
     ? posts
-    : posts.filter((post) => !historicalTags[post.relativePath]);
+    : posts.filter((post) => {
+        if (!historicalTags[post.relativePath]) return true;
+        if (!changedOnly) return false;
+        const reason = detectChange(post, state[post.relativePath], promptVersion);
+        if (reason) {
+          scopedLogger.debug(`Regenerating ${post.relativePath}: ${reason}`);
+        }
+        return reason !== null;
+      });
 
-  if (!forceFull) {
+  if (resumed) {
+    scopedLogger.info(`Resuming review session from ${config.reviewJsonRaw}.`);
+  } else if (!forceFull) {
     const skipped = posts.length - postsToProcess.length;
     if (skipped > 0) {
       scopedLogger.info(
-        `Skipping ${skipped} existing post${skipped === 1 ? '' : 's'} present in tags.json (use --full to regenerate).`
+        changedOnly
+          ? `Skipping ${skipped} unchanged post${skipped === 1 ? '' : 's'} recorded in ${config.stateJsonRaw}.`
+          : `Skipping ${skipped} existing post${skipped === 1 ? '' : 's'} present in tags.json (use --changed or --full to regenerate).`
       );
     }
   }
@@ -151,12 +420,14 @@ async function runGenerate(args: CliOptions, config: TagSyncConfig, scopedLogger
     writeChain = writeChain.then(async () => {
       const snapshot = sortTagsMap(tagsMap);
       await writeTagsSnapshot(snapshot, config, scopedLogger, reason);
+      await writeStateFile(state, config, scopedLogger);
     });
     return writeChain;
   };
 
   let results = new Map<string, LlmResponse>();
   let merges = new Map<string, MergeResult>();
+  let requests: RequestCounts = { llmCalls: 0, cacheHits: 0 };
 
   if (postsToProcess.length > 0) {
     scopedLogger.info(
@@ -165,7 +436,14 @@ async function runGenerate(args: CliOptions, config: TagSyncConfig, scopedLogger
     const generated = await generateTags(postsToProcess, config, scopedLogger, {
       historicalTags,
       onPostProcessed: async (post, merge) => {
+        if (reviewing) {
+          // 审阅模式下先暂存结果，确认后再统一写入
+          reviewEntries.push(buildReviewEntry(post.relativePath, merge, buildPostState(post, config.model, promptVersion)));
+          return;
+        }
         tagsMap[post.relativePath] = merge.tags;
+        state[post.relativePath] = buildPostState(post, config.model, promptVersion);
+        scores[post.relativePath] = merge.scores;
         if (!config.dryRun) {
           await scheduleWrite(post.relativePath);
         }
@@ -173,33 +451,137 @@ async function runGenerate(args: CliOptions, config: TagSyncConfig, scopedLogger
     });
     results = generated.results;
     merges = generated.merges;
-  } else {
+    requests = generated.requests;
+  } else if (!resumed) {
     scopedLogger.info('No new posts require tag generation.');
   }
 
   await writeChain;
 
+  if (reviewing) {
+    const session = resumed ?? {
+      createdAt: new Date().toISOString(),
+      entries: reviewEntries.sort((a, b) => a.path.localeCompare(b.path, 'en-US'))
+    };
+    if (session.entries.length > 0) {
+      const outcome = await reviewSession(session, {
+        sortTags: config.sortTags,
+        target: config.tagsJsonRaw,
+        input: process.stdin,
+        output: process.stdout
+      });
+      if (outcome === 'saved') {
+        if (config.dryRun) {
+          scopedLogger.info('Dry run enabled. Review progress was not saved.');
+        } else {
+          await writeReviewSession(session, config.reviewJsonPath, scopedLogger);
+          scopedLogger.info(`Review progress saved to ${config.reviewJsonRaw}. Run generate --resume to continue.`);
+        }
+        return;
+      }
+      for (const entry of session.entries) {
+        if (entry.status === 'accepted' && entry.tags) {
+          tagsMap[entry.path] = entry.tags;
+          state[entry.path] = entry.state;
+          scores[entry.path] = entry.scores ?? [];
+        }
+      }
+      if (!config.dryRun) {
+        await removeReviewSession(config.reviewJsonPath);
+      }
+    }
+  }
+
   const processedPaths = new Set(posts.map((post) => post.relativePath));
-  const filterApplied = Boolean(config.filter && config.filter.trim());
+  const filterApplied = Boolean((config.filter && config.filter.trim()) || config.gitSelection);
   if (!filterApplied) {
     for (const key of Object.keys(tagsMap)) {
       if (!processedPaths.has(key)) {
         delete tagsMap[key];
       }
     }
+    for (const key of Object.keys(state)) {
+      if (!processedPaths.has(key)) {
+        delete state[key];
+      }
+    }
   }
 
   const sortedTagsMap = sortTagsMap(tagsMap);
 
   if (config.dryRun || postsToProcess.length === 0) {
     await writeTagsFile(sortedTagsMap, config, scopedLogger);
+    if (!config.dryRun) {
+      await writeStateFile(state, config, scopedLogger);
+    }
   } else {
     await scheduleWrite('finalize');
     await writeChain;
   }
 
-  const stats = buildStatistics(postsToProcess.length, merges, results);
+  await writeCategoriesFile(sortedTagsMap, config, scopedLogger);
+  // 评分旁路文件按 tags.json 过滤，已删除的文章与标签随之移除
+  await writeScoresFile(scores, sortedTagsMap, config, scopedLogger);
+
+  const stats = buildStatistics(postsToProcess.length, merges, results, requests);
   scopedLogger.info('Sync summary', stats);
+  const aliasRewrites = collectAliasRewrites(merges);
+  if (Object.keys(aliasRewrites).length > 0) {
+    scopedLogger.info('Alias rewrites', aliasRewrites);
+  }
+  const removals = Object.fromEntries(
+    Array.from(merges.entries())
+      .filter(([, merge]) => merge.removed.length > 0)
+      .map(([relativePath, merge]) => [relativePath, merge.removed])
+  );
+  if (Object.keys(removals).length > 0) {
+    scopedLogger.info(config.dryRun ? 'Tags that would be removed' : 'Removed tags', removals);
+  }
+}
+
+async function runImport(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  const gitChanges = config.gitSelection ? await listGitChanges(config.workspaceRoot, config.gitSelection) : null;
+  const posts = await loadPosts(config.postRoot, {
+    filter: config.filter,
+    includeDrafts: config.includeDrafts,
+    logger: scopedLogger,
+    workspaceRoot: config.workspaceRoot,
+    git: config.gitSelection,
+    gitChanges
+  });
+  if (posts.length === 0) {
+    scopedLogger.warn('No posts found matching current filters.');
+    return;
+  }
+
+  const mode = args.overwrite ? 'overwrite' : 'merge';
+  scopedLogger.info(`Importing front-matter tags from ${posts.length} posts into ${config.tagsJsonRaw} (${mode}).`);
+  const existing = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  followGitRenames(gitChanges, scopedLogger, existing);
+  const { tagsMap, imported, empty, aliased } = importFrontmatterTags(posts, existing, config, mode);
+
+  // 与 generate 一致：未设置过滤条件时移除已不存在的文章
+  if (!config.filter.trim() && !config.gitSelection) {
+    const scanned = new Set(posts.map((post) => post.relativePath));
+    for (const key of Object.keys(tagsMap)) {
+      if (!scanned.has(key)) {
+        delete tagsMap[key];
+      }
+    }
+  }
+
+  const sortedTagsMap = sortTagsMap(tagsMap);
+  await writeTagsFile(sortedTagsMap, config, scopedLogger);
+  await writeCategoriesFile(sortedTagsMap, config, scopedLogger);
+
+  scopedLogger.info(`Import complete. Imported ${imported.length}, without front-matter tags ${empty.length}.`);
+  if (empty.length > 0) {
+    scopedLogger.debug('Posts without front-matter tags:', empty.slice(0, 10));
+  }
+  const rewrites = Object.fromEntries(aliased.map(({ from, to }) => [from, to]));
+  if (Object.keys(rewrites).length > 0) {
+    scopedLogger.info('Alias rewrites', rewrites);
+  }
 }
 
 async function runApply(config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
@@ -209,8 +591,10 @@ async function runApply(config: TagSyncConfig, scopedLogger: Logger): Promise<vo
   const summary = await syncFrontmatterFromTags(config, scopedLogger, {
     dryRun: config.dryRun,
     filter: config.filter,
+    git: config.gitSelection,
     includeDrafts: config.includeDrafts,
-    sortTags: config.sortTags
+    sortTags: config.sortTags,
+    categoriesMode: config.categoriesMode
   });
   scopedLogger.info(
     `Front-matter sync complete. Updated ${summary.updated.length}, unchanged ${summary.unchanged.length}, missing ${summary.missing.length}.`
@@ -226,21 +610,459 @@ async function runApply(config: TagSyncConfig, scopedLogger: Logger): Promise<vo
   }
 }
 
+async function runEval(args: CliOptions, overrides: ConfigOverrides, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  const goldPath = args.gold ? path.resolve(config.cwd, args.gold) : config.tagsJsonPath;
+  const gold = await readTagsFile(goldPath, scopedLogger);
+  const posts = (
+    await loadPosts(config.postRoot, {
+      filter: config.filter,
+      includeDrafts: true,
+      logger: scopedLogger,
+      workspaceRoot: config.workspaceRoot
+    })
+  ).filter((post) => Array.isArray(gold[post.relativePath]));
+  if (posts.length === 0) {
+    throw new Error(`No posts in ${goldPath} matched the loaded posts.`);
+  }
+  const variants: EvalVariant[] = args.configs
+    ? await loadEvalVariants(path.resolve(config.cwd, args.configs))
+    : [{ name: 'current' }];
+
+  const goldLabel = path.relative(config.workspaceRoot, goldPath) || goldPath;
+  const report: EvalReport = { createdAt: new Date().toISOString(), gold: goldLabel, posts: posts.length, variants: [] };
+  for (const variant of variants) {
+    const { name, ...variantOverrides } = variant;
+    // 严格词表、prune、标签上限与置信度过滤都依赖历史标签或会改写模型输出，评估时一律关闭
+    const variantConfig: TagSyncConfig = {
+      ...loadConfig({ ...overrides, ...variantOverrides }),
+      strictVocabulary: false,
+      prune: false,
+      maxTags: 0,
+      minConfidence: 0
+    };
+    scopedLogger.info(`Evaluating ${name} (${variantConfig.provider}/${variantConfig.model}, prompt ${variantConfig.promptTemplate.version})...`);
+    // 金标准往往就是 tags.json（front-matter 同步后两者一致），历史标签、词表与 front-matter 标签都不能提供给模型，
+    // 也不能参与合并，否则评估的是已有标签而不是模型输出
+    const { results, merges } = await generateTags(
+      posts.map((post) => ({ ...post, frontMatterTags: [] })),
+      variantConfig,
+      scopedLogger,
+      { historicalTags: {} }
+    );
+    const predicted: TagsMap = {};
+    for (const [relativePath, merge] of Array.from(merges).sort((a, b) => a[0].localeCompare(b[0], 'en-US'))) {
+      predicted[relativePath] = merge.tags;
+    }
+    // 只对参与评估的文章打分（--filter 之外的金标准条目不计入）
+    const evaluatedGold: TagsMap = Object.fromEntries(
+      posts.map((post) => post.relativePath).sort((a, b) => a.localeCompare(b, 'en-US')).map((relativePath) => [relativePath, gold[relativePath]])
+    );
+    const { metrics, posts: details } = scoreTags(evaluatedGold, predicted, config.tagAliases);
+    report.variants.push({
+      name,
+      provider: variantConfig.provider,
+      model: variantConfig.model,
+      promptVersion: variantConfig.promptTemplate.version,
+      metrics,
+      evaluated: merges.size,
+      failed: Array.from(results).filter(([, response]) => response.error).map(([relativePath]) => relativePath).sort(),
+      posts: details
+    });
+  }
+
+  console.log(renderEvalReport(report));
+  const output = args.output ? path.resolve(config.cwd, args.output) : path.join(path.dirname(config.tagsJsonPath), 'tags.eval.json');
+  await writeFileAtomic(output, JSON.stringify(report, null, 2));
+  scopedLogger.info(`Eval report written to ${output}`);
+}
+
+async function runPromptRender(
+  target: string | undefined,
+  args: CliOptions,
+  config: TagSyncConfig,
+  scopedLogger: Logger
+): Promise<void> {
+  if (!target) {
+    throw new Error('Missing post. Usage: prompt render <post path or keyword>');
+  }
+  // 指定单篇文章时草稿同样可以渲染
+  const posts = await loadPosts(config.postRoot, {
+    includeDrafts: true,
+    logger: scopedLogger,
+    workspaceRoot: config.workspaceRoot
+  });
+  const absolute = path.resolve(config.cwd, target);
+  const exact = posts.find((post) => post.absolutePath === absolute || post.relativePath === toPosix(target));
+  const matches = exact ? [exact] : posts.filter((post) => post.relativePath.includes(toPosix(target)));
+  if (matches.length === 0) {
+    throw new Error(`No post matches "${target}".`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${target}" matches ${matches.length} posts: ${matches.map((post) => post.relativePath).join(', ')}`);
+  }
+
+  const historicalTags = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  // 长文提示走 debug，保证标准输出只包含渲染结果
+  const quietLogger: Logger = { ...scopedLogger, info: scopedLogger.debug };
+  const prompts = await renderPostPrompts(matches[0], config, historicalTags, quietLogger);
+  if (args.format === 'json') {
+    console.log(JSON.stringify({ version: config.promptTemplate.version, prompts }, null, 2));
+    return;
+  }
+  const source = config.promptFile ? path.relative(config.workspaceRoot, config.promptFile) || config.promptFile : 'built-in';
+  console.log(
+    prompts
+      .map((prompt) =>
+        [
+          `# ${prompt.label} (prompt version ${config.promptTemplate.version}, ${source})`,
+          ...prompt.messages.map((message) => `\n[${message.role}]\n${message.content}`)
+        ].join('\n')
+      )
+      .join('\n\n')
+  );
+}
+
+async function runCheck(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  const report = await checkFrontmatterDrift(config, scopedLogger, {
+    filter: config.filter,
+    git: config.gitSelection,
+    includeDrafts: config.includeDrafts,
+    sortTags: config.sortTags
+  });
+  console.log(args.format === 'json' ? JSON.stringify(report, null, 2) : renderDriftReport(report, config.tagsJsonRaw));
+  if (hasDrift(report)) {
+    process.exitCode = 1;
+  }
+}
+
+async function runRelated(config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  // 全部文章都作为候选；--filter / git 条件只决定重新计算哪些文章的相关文章，结果合并进已有文件
+  const posts = await loadPosts(config.postRoot, {
+    includeDrafts: config.includeDrafts,
+    logger: scopedLogger,
+    workspaceRoot: config.workspaceRoot
+  });
+  if (posts.length < 2) {
+    scopedLogger.warn('At least two posts are required to build related posts.');
+    return;
+  }
+  const filterApplied = Boolean((config.filter && config.filter.trim()) || config.gitSelection);
+  const selected = filterApplied
+    ? await loadPosts(config.postRoot, {
+        filter: config.filter,
+        includeDrafts: config.includeDrafts,
+        logger: scopedLogger,
+        workspaceRoot: config.workspaceRoot,
+        git: config.gitSelection
+      })
+    : posts;
+  if (selected.length === 0) {
+    scopedLogger.info('No posts matched the selection. Nothing to update.');
+    return;
+  }
+  const tagsMap = await readTagsFile(config.tagsJsonPath, scopedLogger);
+
+  scopedLogger.info(`Embedding ${posts.length} posts via ${config.embeddingModel}...`);
+  const { vectors, cacheHits, requests } = await embedTexts(
+    posts.map((post) => ({ id: post.relativePath, text: buildEmbeddingText(post, config.embeddingModel) })),
+    config,
+    scopedLogger
+  );
+  scopedLogger.info(`Embeddings ready: ${cacheHits} from cache, ${requests} request${requests === 1 ? '' : 's'}.`);
+
+  const related = buildRelatedMap(
+    posts.map((post) => ({
+      path: post.relativePath,
+      title: post.title,
+      tags: tagsMap[post.relativePath] ?? post.frontMatterTags,
+      embedding: vectors.get(post.relativePath) ?? []
+    })),
+    {
+      limit: config.relatedLimit,
+      tagWeight: config.relatedTagWeight,
+      only: filterApplied ? new Set(selected.map((post) => post.relativePath)) : undefined
+    }
+  );
+
+  if (config.dryRun) {
+    for (const [relativePath, neighbours] of Object.entries(related)) {
+      scopedLogger.info(relativePath, neighbours.map((neighbour) => `${neighbour.path} (${neighbour.score})`));
+    }
+    scopedLogger.info(`Dry run enabled. Skipping ${config.relatedJsonRaw} update.`);
+    return;
+  }
+  const merged = filterApplied
+    ? mergeRelatedMap(
+        await readRelatedFile(config.relatedJsonPath, scopedLogger),
+        related,
+        new Set(posts.map((post) => post.relativePath))
+      )
+    : related;
+  await writeRelatedFile(merged, config);
+  scopedLogger.info(
+    `Related posts written to ${config.relatedJsonPath} (top ${config.relatedLimit} per post, ${Object.keys(related).length} updated).`
+  );
+}
+
+async function runPages(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  // 标签页需要完整的成员列表，因此不使用 --filter / git 条件筛选文章
+  const posts = await loadPosts(config.postRoot, {
+    includeDrafts: config.includeDrafts,
+    logger: scopedLogger,
+    workspaceRoot: config.workspaceRoot
+  });
+  const tagsMap = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  const pages = buildTagPages(posts, tagsMap);
+  for (const page of pages) {
+    if (page.slug !== slugifyTag(page.tag)) {
+      scopedLogger.warn(`Tag "${page.tag}" has an empty or shared slug; its page is written to ${path.join(config.pagesDirRaw, page.slug)}.`);
+    }
+  }
+  const counts = { created: 0, updated: 0, unchanged: 0, failed: 0 };
+
+  const limit = pLimit(config.maxConcurrency);
+  await Promise.all(
+    pages.map((page) =>
+      limit(async () => {
+        const target = pagePath(config.pagesDir, page);
+        const label = path.relative(config.workspaceRoot, target) || target;
+        const existing = await readExistingPage(target);
+        if (existing?.metadata?.hash === page.hash && !args.full) {
+          counts.unchanged += 1;
+          return;
+        }
+        const kept = manuallyEditedSections(existing);
+        if (kept.size > 0) {
+          scopedLogger.debug(`${label}: keeping manually edited sections: ${Array.from(kept).join(', ')}`);
+        }
+        if (config.dryRun) {
+          scopedLogger.info(`Dry run: would ${existing ? 'update' : 'create'} ${label} (${page.posts.length} posts)`);
+          counts[existing ? 'updated' : 'created'] += 1;
+          return;
+        }
+
+        const generated = {
+          posts: renderPostsSection(page, config.postRoot, config.workspaceRoot, config.language),
+          related: renderRelatedSection(page, config.language),
+          description: undefined as string | undefined
+        };
+        if (!kept.has('description')) {
+          try {
+            generated.description = await generateText(config, buildDescriptionPrompt(page, config.language), scopedLogger);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            scopedLogger.warn(`Skipping ${label}: failed to generate description: ${message}`);
+            counts.failed += 1;
+            return;
+          }
+        }
+        await writeFileAtomic(target, renderTagPage(page, generated, existing));
+        counts[existing ? 'updated' : 'created'] += 1;
+        scopedLogger.debug(`${existing ? 'Updated' : 'Created'} ${label}`);
+      })
+    )
+  );
+
+  // 不再使用的标签页可能已被手动修改，只提示而不删除
+  const slugs = new Set(pages.map((page) => page.slug));
+  const entries = await fs.readdir(config.pagesDir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory() || slugs.has(entry.name)) continue;
+    const existing = await readExistingPage(path.join(config.pagesDir, entry.name, 'index.md'));
+    if (existing?.metadata) {
+      scopedLogger.warn(`${path.join(config.pagesDirRaw, entry.name)} no longer matches any tag in ${config.tagsJsonRaw}.`);
+    }
+  }
+
+  scopedLogger.info(
+    `${config.dryRun ? 'Dry run: ' : ''}Tag pages in ${config.pagesDirRaw}: created ${counts.created}, updated ${counts.updated}, unchanged ${counts.unchanged}${counts.failed > 0 ? `, failed ${counts.failed}` : ''}.`
+  );
+  if (counts.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runSuggestMerges(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  const format = (args.format || 'table').toLowerCase() as MergeSuggestionFormat;
+  if (!MERGE_SUGGESTION_FORMATS.includes(format)) {
+    throw new Error(`Unsupported suggest-merges format "${args.format}". Expected one of: ${MERGE_SUGGESTION_FORMATS.join(', ')}.`);
+  }
+  const minScore = args.minScore ? Number(args.minScore) : 0.6;
+  if (!Number.isFinite(minScore) || minScore < 0 || minScore > 1) {
+    throw new Error(`--min-score must be a number between 0 and 1, got "${args.minScore}".`);
+  }
+
+  const tagsMap = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  let clusters = suggestTagMerges(tagsMap, { minScore, aliases: config.tagAliases });
+  scopedLogger.debug(`Found ${clusters.length} candidate merge${clusters.length === 1 ? '' : 's'} in ${config.tagsJsonRaw}.`);
+  if (args.llm && clusters.length > 0) {
+    const confirmed = await confirmMergeClusters(clusters, config, scopedLogger);
+    if (confirmed) {
+      scopedLogger.debug(`Model confirmed ${confirmed.size} of ${clusters.length} candidate merges.`);
+      clusters = clusters.filter((_, index) => confirmed.has(index));
+    } else {
+      scopedLogger.warn('Keeping unverified suggestions.');
+    }
+  }
+
+  const rendered = renderMergeSuggestions(clusters, format);
+  if (args.output) {
+    const target = path.resolve(config.cwd, args.output);
+    await writeFileAtomic(target, `${rendered}\n`);
+    scopedLogger.info(`Merge suggestions written to ${target}`);
+  } else {
+    console.log(rendered);
+  }
+}
+
+async function runStats(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  const format = (args.format || 'table').toLowerCase() as StatsFormat;
+  if (!STATS_FORMATS.includes(format)) {
+    throw new Error(`Unsupported stats format "${args.format}". Expected one of: ${STATS_FORMATS.join(', ')}.`);
+  }
+  const posts = await loadPosts(config.postRoot, {
+    filter: config.filter,
+    includeDrafts: config.includeDrafts,
+    logger: scopedLogger,
+    workspaceRoot: config.workspaceRoot,
+    git: config.gitSelection
+  });
+  const tagsMap = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  const options = { minTags: args.minTags ?? 3, maxTags: args.maxTags ?? 6 };
+  const scores = await readScoresFile(config.scoresJsonPath, scopedLogger);
+  const report = buildTagStats(posts, tagsMap, config, options, scores);
+  console.log(renderStats(report, format, options));
+}
+
+async function runRename(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  const renames: TagRenameMap = {};
+  if (args.map) {
+    Object.assign(renames, await loadRenameMap(path.resolve(config.cwd, args.map)));
+  }
+  if (args.from || args.to) {
+    if (!args.from || !args.to) {
+      throw new Error('Both --from and --to are required to rename a single tag.');
+    }
+    renames[args.from] = args.to;
+  }
+  if (Object.keys(renames).length === 0) {
+    throw new Error('Nothing to rename. Pass --from=<tag> --to=<tag> or --map=<mapping.json>.');
+  }
+
+  const existing = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  const { tagsMap, changes } = renameTags(existing, renames, config.sortTags);
+  if (changes.length === 0) {
+    scopedLogger.info(`No entries in ${config.tagsJsonRaw} use the renamed tags.`);
+    return;
+  }
+
+  for (const change of changes) {
+    scopedLogger.info(
+      `${config.dryRun ? 'Dry run: would rename' : 'Renamed'} tags in ${change.path}: [${change.before.join(', ')}] -> [${change.after.join(', ')}]`
+    );
+  }
+  if (!config.dryRun) {
+    const sortedTagsMap = sortTagsMap(tagsMap);
+    await writeTagsFile(sortedTagsMap, config, scopedLogger);
+    await writeCategoriesFile(sortedTagsMap, config, scopedLogger);
+  }
+
+  if (args.applyFrontmatter) {
+    const changedEntries = Object.fromEntries(changes.map((change) => [change.path, change.after]));
+    const summary = await syncFrontmatterFromTags(config, scopedLogger, {
+      dryRun: config.dryRun,
+      filter: config.filter,
+      git: config.gitSelection,
+      includeDrafts: config.includeDrafts,
+      sortTags: config.sortTags,
+      categoriesMode: config.categoriesMode,
+      tagsMap: changedEntries
+    });
+    scopedLogger.info(
+      `Front-matter rename complete. Updated ${summary.updated.length}, unchanged ${summary.unchanged.length}, missing ${summary.missing.length}.`
+    );
+  }
+  scopedLogger.info(
+    `${config.dryRun ? 'Would rename' : 'Renamed'} tags in ${changes.length} entr${changes.length === 1 ? 'y' : 'ies'}.`
+  );
+}
+
+async function runTaxonomyLint(args: CliOptions, config: TagSyncConfig, scopedLogger: Logger): Promise<void> {
+  if (!config.taxonomyPath) {
+    throw new Error('No taxonomy rules configured. Set TAG_SYNC_TAXONOMY_JSON or pass --taxonomy=<path>.');
+  }
+  const tagsMap = await readTagsFile(config.tagsJsonPath, scopedLogger);
+  const tags = countTagUsage(tagsMap, config.tagAliases).map((entry) => entry.tag);
+  // loadConfig 未解析规则内容（见 run），由这里读取原始文件，语法或结构错误都会出现在报告中
+  let raw: string;
+  try {
+    raw = await fs.readFile(config.taxonomyPath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to read taxonomy rules from ${config.taxonomyPath}: ${message}`);
+  }
+  const report = lintTaxonomyFile(raw, tags);
+  const source = path.relative(config.workspaceRoot, config.taxonomyPath) || config.taxonomyPath;
+  console.log(args.format === 'json' ? JSON.stringify(report, null, 2) : renderLintReport(report, source));
+  if (report.errors > 0 || (report.warnings > 0 && !args.allowWarnings)) {
+    process.exitCode = 1;
+  }
+}
+
 async function run(): Promise<void> {
   const argv = process.argv.slice(2);
   const { command, rest } = extractCommand(argv);
   const args = parseArgs(rest);
-  const config = loadConfig({
+  const overrides: ConfigOverrides = {
     dryRun: args.dryRun,
     includeDrafts: args.includeDrafts,
     filter: args.filter,
-    debug: args.debug
-  });
+    since: args.since,
+    staged: args.staged,
+    untracked: args.untracked,
+    debug: args.debug,
+    strictVocabulary: args.strictVocabulary,
+    allowNewTags: args.allowNewTags,
+    cache: args.cache,
+    categoriesMode: args.categories,
+    taxonomyPath: args.taxonomy,
+    loadTaxonomy: command !== 'taxonomy-lint',
+    prune: args.prune,
+    // stats 的 --max-tags 只是统计阈值，不作为生成时的标签上限
+    maxTags: command === 'stats' ? undefined : args.maxTags,
+    backups: args.backups,
+    relatedLimit: args.top,
+    pagesDir: args.pagesDir,
+    promptFile: args.promptFile,
+    diffFormat: args.diffFormat,
+    diffFile: args.diffFile
+  };
+  const config = loadConfig(overrides);
 
   const scopedLogger = createLogger({ debug: config.debug });
 
   if (command === 'apply') {
     await runApply(config, scopedLogger);
+  } else if (command === 'rename') {
+    await runRename(args, config, scopedLogger);
+  } else if (command === 'import') {
+    await runImport(args, config, scopedLogger);
+  } else if (command === 'check') {
+    await runCheck(args, config, scopedLogger);
+  } else if (command === 'taxonomy-lint') {
+    await runTaxonomyLint(args, config, scopedLogger);
+  } else if (command === 'suggest-merges') {
+    await runSuggestMerges(args, config, scopedLogger);
+  } else if (command === 'eval') {
+    await runEval(args, overrides, config, scopedLogger);
+  } else if (command === 'prompt-render') {
+    await runPromptRender(rest.find((arg) => !arg.startsWith('--')), args, config, scopedLogger);
+  } else if (command === 'pages') {
+    await runPages(args, config, scopedLogger);
+  } else if (command === 'related') {
+    await runRelated(config, scopedLogger);
+  } else if (command === 'stats') {
+    await runStats(args, config, scopedLogger);
   } else {
     await runGenerate(args, config, scopedLogger);
   }
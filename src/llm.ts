@@ -1,16 +1,16 @@
 import pLimit from 'p-limit';
 import { ProxyAgent, Dispatcher } from 'undici';
-import { LlmResponse, TagSyncConfig, LoadedPost, Logger, TagsMap } from './types';
+import { LlmResponse, TagSyncConfig, LoadedPost, Logger, TagsMap, ResponseFormatMode, TagScore, PromptTemplate, RequestCounts } from './types';
 import { sleep } from './utils';
-import { mergeTags } from './taxonomy';
-
-interface ChatCompletionResponse {
-  choices?: { message?: { content?: string } }[];
-}
+import { countTagUsage, limitVocabulary, mergeTags } from './taxonomy';
+import { buildCacheKey, createResponseCache } from './cache';
+import { ChatMessage, getProvider } from './providers';
+import { renderTemplate } from './prompts';
+import { buildOutline, estimateTokens, extractHeadings, splitIntoChunks } from './tokens';
 
 const proxyAgents = new Map<string, Dispatcher>();
 
-function getDispatcher(config: TagSyncConfig): Dispatcher | undefined {
+export function getDispatcher(config: Pick<TagSyncConfig, 'proxyUrl'>): Dispatcher | undefined {
   if (!config.proxyUrl) return undefined;
   const existing = proxyAgents.get(config.proxyUrl);
   if (existing) return existing;
@@ -25,91 +25,394 @@ function getDispatcher(config: TagSyncConfig): Dispatcher | undefined {
   return agent;
 }
 
-function buildPrompt(post: LoadedPost, language: string, historyTags: string[]): string {
-  const frontMatterTags = post.frontMatterTags.length ? post.frontMatterTags.join(', ') : '（无）';
-  const historical = historyTags.length ? historyTags.join(', ') : '（无）';
-  const languageLabel = language === 'en' ? '英文' : '中文';
-  return `你是一名熟悉技术博客的标签分类专家，请基于完整文章生成 3-6 个高质量标签。
+interface PromptVocabulary {
+  tags: string[];
+  strict: boolean;
+}
 
-文章标题：${post.title}
-Front-matter 标签：${frontMatterTags}
-历史标签（tags.json）：${historical}
+interface PromptBody {
+  label: string;
+  content: string;
+}
 
-全文内容如下：
-${post.content}
+interface OutputFormat {
+  mode: ResponseFormatMode;
+  /** 要求模型为每个标签给出置信度与理由 */
+  scored: boolean;
+  /** 要求模型列出不再适用的已有标签 */
+  prune: boolean;
+}
 
-要求：
-1. 优先复用已有标签；若含义适用，请直接保留。
-2. 对英文技术专有名词（协议、框架、API、库等）保持英文，不要翻译成中文。
-3. 标签需具体、可复用，避免过宽泛，例如“技术”或“学习”。
-4. 输出采用 ${languageLabel} 为主，可中英混用，格式为 JSON 数组，例如 ["标签1", "Tag2"].`;
+function describeOutputFormat(format: OutputFormat): string {
+  const items = format.scored ? '{"tag": "标签1", "confidence": 0.9, "reason": "一句话理由"}' : '"标签1", "Tag2"';
+  if (format.prune) {
+    return `JSON 对象，例如 {"tags": [${items}], "remove": ["过时标签"]}`;
+  }
+  return format.mode === 'text' ? `JSON 数组，例如 [${items}]` : `JSON 对象，例如 {"tags": [${items}]}`;
 }
 
-async function callChatCompletion(config: TagSyncConfig, prompt: string): Promise<LlmResponse> {
-  if (!config.apiKey) {
-    return { tags: [], raw: null, error: new Error('Missing TAG_SYNC_API_KEY') };
+/**
+ * 附加要求接着模板中 `{{extraRules}}` 之前最后一个编号继续编号（默认模板为 `6.` 起），
+ * 之前没有编号列表时以 `-` 逐行列出，编号方式因此由模板决定。
+ */
+function describeExtraRules(format: OutputFormat, template: string): string {
+  const rules: string[] = [];
+  if (format.scored) {
+    rules.push('confidence 为 0-1 之间的数值，表示该标签与文章的贴合程度；reason 用一句话说明选择该标签的依据。');
+  }
+  if (format.prune) {
+    rules.push('若 Front-matter 标签或历史标签中有与文章内容明显不符或已过时的，请在 remove 中列出（原样书写），没有则返回空数组。');
   }
+  const placeholder = /\{\{\s*extraRules\s*\}\}/.exec(template);
+  const numbers = Array.from(template.slice(0, placeholder?.index ?? 0).matchAll(/^\s*(\d+)\.\s/gm));
+  const last = numbers.length > 0 ? Number(numbers[numbers.length - 1][1]) : null;
+  return rules.map((rule, index) => `\n${last === null ? '-' : `${last + index + 1}.`} ${rule}`).join('');
+}
+
+interface PromptContext {
+  template: PromptTemplate;
+  language: string;
+  vocabulary: PromptVocabulary;
+  postFormat: OutputFormat;
+  /** 分段候选只需要标签本身，评分与移除建议由最终汇总请求给出 */
+  chunkFormat: OutputFormat;
+}
+
+function describeLanguage(language: string): string {
+  return language === 'en' ? '英文' : '中文';
+}
+
+function buildPrompt(
+  post: LoadedPost,
+  context: PromptContext,
+  historyTags: string[],
+  body: PromptBody = { label: '全文内容如下：', content: post.content }
+): string {
+  const { vocabulary, postFormat } = context;
+  return renderTemplate(context.template.user, {
+    title: post.title,
+    tags: post.frontMatterTags.length ? post.frontMatterTags.join(', ') : '（无）',
+    history: historyTags.length ? historyTags.join(', ') : '（无）',
+    vocabulary: vocabulary.tags.length ? vocabulary.tags.join(', ') : '（无）',
+    contentLabel: body.label,
+    content: body.content,
+    language: describeLanguage(context.language),
+    outputFormat: describeOutputFormat(postFormat),
+    reuseRule: vocabulary.strict
+      ? '只能从「全站已有标签」或本文已有标签中选择，不要创造新标签。'
+      : '若「全站已有标签」中有含义相同或相近的标签，必须直接复用其写法，不要创造近义重复标签。',
+    extraRules: describeExtraRules(postFormat, context.template.user)
+  });
+}
 
-  const body = {
-    model: config.model,
-    messages: [
-      { role: 'system', content: '你是一个优秀的中文技术标签生成器。' },
-      { role: 'user', content: prompt }
-    ],
-    temperature: 0.2,
-  max_tokens: 1024
+function buildChunkPrompt(post: LoadedPost, chunk: string, index: number, total: number, context: PromptContext): string {
+  return renderTemplate(context.template.chunk, {
+    title: post.title,
+    chunk,
+    chunkIndex: String(index + 1),
+    chunkTotal: String(total),
+    language: describeLanguage(context.language),
+    outputFormat: describeOutputFormat(context.chunkFormat)
+  });
+}
+
+/**
+ * 根据历史标签构建 prompt 上下文（全站词表按 token 预算截断）。返回的 `vocabulary` 为未截断的完整词表，供合并时校验。
+ */
+function createPromptContext(
+  config: TagSyncConfig,
+  historicalTagsMap: TagsMap,
+  logger: Logger
+): { context: PromptContext; vocabulary: string[] } {
+  const usage = countTagUsage(historicalTagsMap, config.tagAliases);
+  const vocabulary = usage.map((entry) => entry.tag);
+  const strictVocabulary = config.strictVocabulary && !config.allowNewTags;
+  const promptVocabulary: PromptVocabulary = {
+    tags: limitVocabulary(usage, config.vocabularyTokenBudget),
+    strict: strictVocabulary
   };
+  if (promptVocabulary.tags.length < vocabulary.length) {
+    logger.debug(
+      `Prompt vocabulary truncated to ${promptVocabulary.tags.length}/${vocabulary.length} tags (budget ${config.vocabularyTokenBudget} tokens).`
+    );
+  }
+  if (strictVocabulary && vocabulary.length === 0) {
+    logger.warn('Strict vocabulary mode is enabled but tags.json is empty; all new tags will be rejected.');
+  }
+  return {
+    context: {
+      template: config.promptTemplate,
+      language: config.language,
+      vocabulary: promptVocabulary,
+      postFormat: { mode: config.responseFormat, scored: config.tagScores, prune: config.prune },
+      chunkFormat: { mode: config.responseFormat, scored: false, prune: false }
+    },
+    vocabulary
+  };
+}
 
+type PromptRequester = (prompt: string, label: string, format: OutputFormat) => Promise<LlmResponse>;
+
+// 超出预算的长文：按配置分段 map-reduce，或压缩为大纲 + 摘要
+async function tagPost(
+  post: LoadedPost,
+  historyTags: string[],
+  context: PromptContext,
+  config: TagSyncConfig,
+  request: PromptRequester,
+  logger: Logger
+): Promise<LlmResponse> {
+  const contentTokens = estimateTokens(post.content, config.model);
+  if (contentTokens <= config.contentTokenBudget) {
+    return request(buildPrompt(post, context, historyTags), post.relativePath, context.postFormat);
+  }
+
+  if (config.longPostStrategy === 'outline') {
+    logger.info(
+      `${post.relativePath} exceeds the content budget (~${contentTokens}/${config.contentTokenBudget} tokens); tagging from headings and excerpt.`
+    );
+    const prompt = buildPrompt(post, context, historyTags, {
+      label: '文章较长，以下为标题大纲与摘要：',
+      content: buildOutline(post, config.contentTokenBudget, config.model)
+    });
+    return request(prompt, post.relativePath, context.postFormat);
+  }
+
+  const chunks = splitIntoChunks(post.content, config.contentTokenBudget, config.model);
+  logger.info(
+    `${post.relativePath} exceeds the content budget (~${contentTokens}/${config.contentTokenBudget} tokens); tagging ${chunks.length} chunks.`
+  );
+  const candidates: string[][] = [];
+  for (let index = 0; index < chunks.length; index += 1) {
+    const label = `${post.relativePath} (chunk ${index + 1}/${chunks.length})`;
+    const response = await request(buildChunkPrompt(post, chunks[index], index, chunks.length, context), label, context.chunkFormat);
+    if (response.error) {
+      return response;
+    }
+    candidates.push(response.tags);
+  }
+  const summary = candidates.map((tags, index) => `- 第 ${index + 1} 部分：${tags.join(', ')}`).join('\n');
+  const outline = extractHeadings(post.content);
+  const prompt = buildPrompt(post, context, historyTags, {
+    label: '文章较长，已分段提取候选标签，请综合后选出最终标签：',
+    content: outline.length ? `${summary}\n\n文章大纲：\n${outline.join('\n')}` : summary
+  });
+  return request(prompt, post.relativePath, context.postFormat);
+}
+
+// 记录不支持结构化输出的服务（baseUrl + model），后续调用直接回退到纯文本模式
+const structuredUnsupported = new Set<string>();
+
+function resolveResponseFormat(config: TagSyncConfig): ResponseFormatMode {
+  if (config.responseFormat === 'text') return 'text';
+  return structuredUnsupported.has(`${config.baseUrl}|${config.model}`) ? 'text' : config.responseFormat;
+}
+
+const TEMPERATURE = 0.2;
+
+function buildMessages(prompt: string, system: string): ChatMessage[] {
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: prompt }
+  ];
+}
+
+function isStructuredOutputRejection(status: number, text: string): boolean {
+  if (status !== 400 && status !== 422) return false;
+  return /response_format|json_schema|json_object|tool|function|format/i.test(text);
+}
+
+/**
+ * 发送一次对话请求并返回模型输出的原始文本及实际使用的输出模式；HTTP 错误时抛出异常。
+ * 服务拒绝结构化输出参数时记录下来并回退到纯文本模式重试。
+ */
+async function requestChatContent(
+  config: TagSyncConfig,
+  messages: ChatMessage[],
+  logger: Logger | undefined,
+  format: Pick<OutputFormat, 'scored' | 'prune'>,
+  initialMode: ResponseFormatMode = resolveResponseFormat(config)
+): Promise<{ content: string; mode: ResponseFormatMode }> {
+  const provider = getProvider(config.provider);
+  let mode = initialMode;
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
   try {
-    const fetchOptions: RequestInit & { dispatcher?: Dispatcher } = {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.apiKey}`,
-        ...config.extraHeaders
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal
-    };
-
     const dispatcher = getDispatcher(config);
-    if (dispatcher) {
-      fetchOptions.dispatcher = dispatcher;
-    }
+    for (;;) {
+      const fetchOptions: RequestInit & { dispatcher?: Dispatcher } = {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...provider.headers(config.apiKey),
+          ...config.extraHeaders
+        },
+        body: JSON.stringify(
+          provider.buildBody({
+            model: config.model,
+            messages,
+            temperature: TEMPERATURE,
+            maxTokens: 1024,
+            mode,
+            scored: format.scored,
+            prune: format.prune
+          })
+        ),
+        signal: controller.signal
+      };
+      if (dispatcher) {
+        fetchOptions.dispatcher = dispatcher;
+      }
 
-    const response = await fetch(`${config.baseUrl}/chat/completions`, fetchOptions);
+      const response = await fetch(provider.endpoint(config.baseUrl), fetchOptions);
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`HTTP ${response.status}: ${text}`);
-    }
+      if (!response.ok) {
+        const text = await response.text();
+        if (mode !== 'text' && isStructuredOutputRejection(response.status, text)) {
+          logger?.warn(`Provider rejected ${mode} output for ${config.model}; falling back to plain text parsing.`);
+          structuredUnsupported.add(`${config.baseUrl}|${config.model}`);
+          mode = 'text';
+          continue;
+        }
+        throw new Error(`HTTP ${response.status}: ${text}`);
+      }
 
-    const json = (await response.json()) as ChatCompletionResponse;
-    const content = json.choices?.[0]?.message?.content ?? '';
-    const tags = parseTagsFromContent(content);
-    return { tags, raw: content, model: config.model };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return { tags: [], raw: null, error: new Error(message) };
+      const json = (await response.json()) as unknown;
+      return { content: provider.extractContent(json, mode), mode };
+    }
   } finally {
     clearTimeout(timeout);
   }
 }
 
-function parseTagsFromContent(content: string): string[] {
-  const jsonMatch = content.match(/\[[\s\S]*\]/);
-  if (!jsonMatch) return [];
+async function callChatCompletion(
+  config: TagSyncConfig,
+  prompt: string,
+  logger?: Logger,
+  format: Pick<OutputFormat, 'scored' | 'prune'> = { scored: config.tagScores, prune: config.prune },
+  system: string = config.promptTemplate.system
+): Promise<LlmResponse> {
+  const provider = getProvider(config.provider);
+  if (provider.requiresApiKey && !config.apiKey) {
+    return { tags: [], raw: null, error: new Error('Missing TAG_SYNC_API_KEY') };
+  }
+
   try {
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (Array.isArray(parsed)) {
-      return parsed.map((item) => String(item).trim()).filter(Boolean);
+    const { content, mode } = await requestChatContent(config, buildMessages(prompt, system), logger, format);
+    const scores = parseScoredTags(content);
+    const tags = scores?.map((score) => score.tag) ?? null;
+    const remove = format.prune ? parseRemovedTags(content) : [];
+    // prune 模式下只建议移除已有标签、不新增标签也是有效回答
+    if ((!tags || tags.length === 0) && remove.length === 0) {
+      const preview = content.length > 200 ? `${content.slice(0, 200)}…` : content;
+      return {
+        tags: [],
+        raw: content,
+        model: config.model,
+        mode,
+        error: new Error(`Model response contained no parseable tags: ${preview || '(empty)'}`)
+      };
     }
-    return [];
+    const detailed = scores?.filter((score) => score.confidence !== undefined || score.reason !== undefined) ?? [];
+    return {
+      tags: tags ?? [],
+      scores: detailed.length > 0 ? detailed : undefined,
+      remove: remove.length > 0 ? remove : undefined,
+      raw: content,
+      model: config.model,
+      mode
+    };
   } catch (error) {
-    return [];
+    const message = error instanceof Error ? error.message : String(error);
+    return { tags: [], raw: null, error: new Error(message) };
+  }
+}
+
+/**
+ * 以纯文本模式请求一段自由文本（例如标签介绍），失败时抛出异常。
+ */
+export async function generateText(config: TagSyncConfig, prompt: string, logger?: Logger): Promise<string> {
+  if (getProvider(config.provider).requiresApiKey && !config.apiKey) {
+    throw new Error('TAG_SYNC_API_KEY is not set. 请在 .env 中配置有效的接口密钥。');
   }
+  const { content } = await requestChatContent(config, buildMessages(prompt, config.promptTemplate.system), logger, { scored: false, prune: false }, 'text');
+  return content
+    .trim()
+    .replace(/^```[a-z]*\n?|```$/g, '')
+    .trim();
+}
+
+function toTagScore(item: unknown): TagScore | null {
+  if (item && typeof item === 'object' && !Array.isArray(item)) {
+    const { tag, name, confidence, reason } = item as Record<string, unknown>;
+    const label = String(tag ?? name ?? '').trim();
+    if (!label) return null;
+    const score: TagScore = { tag: label };
+    const value = typeof confidence === 'string' ? Number(confidence) : confidence;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      score.confidence = Math.min(1, Math.max(0, value));
+    }
+    if (typeof reason === 'string' && reason.trim()) {
+      score.reason = reason.trim();
+    }
+    return score;
+  }
+  const label = String(item ?? '').trim();
+  return label ? { tag: label } : null;
+}
+
+function toScoreList(value: unknown): TagScore[] | null {
+  if (Array.isArray(value)) {
+    return value.map(toTagScore).filter((score): score is TagScore => score !== null);
+  }
+  if (value && typeof value === 'object' && Array.isArray((value as { tags?: unknown }).tags)) {
+    return toScoreList((value as { tags: unknown[] }).tags);
+  }
+  return null;
+}
+
+/**
+ * 解析模型输出：先按完整 JSON（数组或 {"tags": [...]}）解析，失败时回退到提取首个 `{...}` 或 `[...]`。
+ * 数组元素可以是字符串，也可以是 `{tag, confidence, reason}` 对象。无法解析时返回 null。
+ */
+export function parseScoredTags(content: string): TagScore[] | null {
+  const trimmed = content.trim();
+  if (!trimmed) return null;
+  const candidates = [trimmed, trimmed.match(/\{[\s\S]*\}/)?.[0], trimmed.match(/\[[\s\S]*\]/)?.[0]];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const parsed = toScoreList(JSON.parse(candidate));
+      if (parsed) return parsed;
+    } catch {
+      // 非完整 JSON，继续尝试正则提取
+    }
+  }
+  return null;
+}
+
+/**
+ * 解析 prune 模式下的 `{"remove": [...]}`；没有该字段或无法解析时返回空数组。
+ */
+export function parseRemovedTags(content: string): string[] {
+  const trimmed = content.trim();
+  const candidates = [trimmed, trimmed.match(/\{[\s\S]*\}/)?.[0]];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const parsed = JSON.parse(candidate) as { remove?: unknown };
+      if (parsed && Array.isArray(parsed.remove)) {
+        return parsed.remove.map((item) => String(item).trim()).filter(Boolean);
+      }
+    } catch {
+      // 继续尝试下一种写法
+    }
+  }
+  return [];
+}
+
+export function parseTagsFromContent(content: string): string[] | null {
+  return parseScoredTags(content)?.map((score) => score.tag) ?? null;
 }
 
 interface GenerateTagOptions {
@@ -126,76 +429,203 @@ export async function generateTags(
 ): Promise<{
   results: Map<string, LlmResponse>;
   merges: Map<string, ReturnType<typeof mergeTags>>;
+  requests: RequestCounts;
 }> {
   const results = new Map<string, LlmResponse>();
+  const requests: RequestCounts = { llmCalls: 0, cacheHits: 0 };
   const merges = new Map<string, ReturnType<typeof mergeTags>>();
 
   const historicalTagsMap: TagsMap = { ...(options.historicalTags ?? {}) };
 
-  if (!config.apiKey) {
+  if (getProvider(config.provider).requiresApiKey && !config.apiKey) {
     throw new Error('TAG_SYNC_API_KEY is not set. 请在 .env 中配置有效的接口密钥。');
   }
 
   const limit = pLimit(config.maxConcurrency);
   const retries = options.retries ?? 2;
 
+  const { context, vocabulary } = createPromptContext(config, historicalTagsMap, logger);
+  const cache = createResponseCache(config, logger);
+
+  // 单次 prompt 请求：先查缓存，未命中时带退避重试
+  // 缓存键使用实际生效的输出模式：服务拒绝结构化输出后，回退得到的纯文本响应不能记在结构化模式的键下
+  const cacheKeyOf = (prompt: string, format: OutputFormat, mode: ResponseFormatMode) =>
+    buildCacheKey({
+      provider: config.provider,
+      // 同名模型在不同服务（例如本地 Ollama 与云端）上输出不同，缓存需按接口地址区分
+      baseUrl: config.baseUrl,
+      model: config.model,
+      messages: buildMessages(prompt, config.promptTemplate.system),
+      temperature: TEMPERATURE,
+      responseFormat: mode,
+      // 仅在开启评分或 prune 时加入，保持已有缓存键不变
+      ...(format.scored ? { scored: true } : {}),
+      ...(format.prune ? { prune: true } : {})
+    });
+
+  const requestTags: PromptRequester = async (prompt, label, format) => {
+    const cached = await cache?.get(cacheKeyOf(prompt, format, resolveResponseFormat(config)));
+    if (cached) {
+      requests.cacheHits += 1;
+      logger.debug(`Cache hit for ${label}`);
+      return {
+        tags: cached.tags,
+        scores: cached.scores,
+        remove: cached.remove,
+        raw: cached.raw,
+        model: cached.model,
+        cached: true
+      };
+    }
+
+    let attempt = 0;
+    let lastError: Error | undefined;
+    while (attempt <= retries) {
+      try {
+        if (attempt > 0) {
+          const backoffMs = Math.min(2000 * attempt, 5000);
+          await sleep(backoffMs);
+        }
+        requests.llmCalls += 1;
+        const response = await callChatCompletion(config, prompt, logger, format);
+
+        // 如果 LLM 返回了错误（如网络故障、HTTP 错误等），应重试而非直接放弃
+        if (response.error) {
+          lastError = response.error;
+          attempt += 1;
+          if (attempt <= retries) {
+            logger.warn?.(
+              `LLM call for ${label} failed (attempt ${attempt}/${retries + 1}): ${response.error.message}. Retrying...`
+            );
+            continue;
+          }
+          logger.warn?.(`LLM call for ${label} failed after ${retries + 1} attempts: ${response.error.message}`);
+          return response;
+        }
+
+        await cache?.set(cacheKeyOf(prompt, format, response.mode ?? resolveResponseFormat(config)), {
+          model: response.model ?? config.model,
+          raw: response.raw,
+          tags: response.tags,
+          scores: response.scores,
+          remove: response.remove
+        });
+        return response;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        logger.warn?.(`Retry ${attempt + 1} failed for ${label}: ${lastError.message}`);
+        attempt += 1;
+      }
+    }
+    return { tags: [], raw: null, error: lastError ?? new Error(`LLM call for ${label} failed`) };
+  };
+
   await Promise.all(
     posts.map((post) =>
       limit(async () => {
         logger.info(`Processing ${post.relativePath}`);
         const historyTags = historicalTagsMap[post.relativePath] ?? [];
-        let attempt = 0;
-        let lastError: Error | undefined;
-        while (attempt <= retries) {
-          try {
-            if (attempt > 0) {
-              const backoffMs = Math.min(2000 * attempt, 5000);
-              await sleep(backoffMs);
-            }
-            const prompt = buildPrompt(post, config.language, historyTags);
-            const response = await callChatCompletion(config, prompt);
-
-            // 如果 LLM 返回了错误（如网络故障、HTTP 错误等），应重试而非直接放弃
-            if (response.error) {
-              lastError = response.error;
-              attempt += 1;
-              if (attempt <= retries) {
-                logger.warn?.(
-                  `LLM call for ${post.relativePath} failed (attempt ${attempt}/${retries + 1}): ${response.error.message}. Retrying...`
-                );
-                continue;
-              }
-              logger.warn?.(
-                `LLM call for ${post.relativePath} failed after ${retries + 1} attempts: ${response.error.message}`
-              );
-              // 所有重试已耗尽，记录结果但不持久化到 tags.json，
-              // 以便下次增量运行时可以重新尝试
-              results.set(post.relativePath, response);
-              return;
-            }
-
-            // 成功：合并标签并持久化
-            results.set(post.relativePath, response);
-            const merged = mergeTags(post.frontMatterTags, response.tags, historyTags, config);
-            merges.set(post.relativePath, merged);
-            historicalTagsMap[post.relativePath] = merged.tags;
-            await options.onPostProcessed?.(post, merged);
-            return;
-          } catch (error) {
-            lastError = error instanceof Error ? error : new Error(String(error));
-            logger.warn?.(`Retry ${attempt + 1} failed for ${post.relativePath}: ${lastError.message}`);
-            attempt += 1;
-          }
+        let response: LlmResponse;
+        try {
+          response = await tagPost(post, historyTags, context, config, requestTags, logger);
+        } catch (error) {
+          const lastError = error instanceof Error ? error : new Error(String(error));
+          response = { tags: [], raw: null, error: lastError };
         }
-        // 所有重试（包括异常和错误响应）已耗尽，不调用 onPostProcessed，
+
+        // 所有重试（包括异常和错误响应）已耗尽，记录结果但不调用 onPostProcessed，
         // 避免将空标签写入 tags.json 导致下次增量运行时被跳过
-        if (lastError) {
-          results.set(post.relativePath, { tags: [], raw: null, error: lastError });
-          logger.error?.(`LLM generation failed for ${post.relativePath} after ${retries + 1} attempts: ${lastError.message}`);
+        if (response.error) {
+          results.set(post.relativePath, response);
+          logger.error?.(
+            `LLM generation failed for ${post.relativePath} after ${retries + 1} attempts: ${response.error.message}`
+          );
+          return;
+        }
+
+        // 成功：合并标签并持久化
+        results.set(post.relativePath, response);
+        const merged = mergeTags(post.frontMatterTags, response.tags, historyTags, config, vocabulary, {
+          scores: response.scores,
+          remove: response.remove
+        });
+        if (merged.rejected.length > 0) {
+          logger.debug(`Rejected tags outside vocabulary for ${post.relativePath}`, merged.rejected);
         }
+        if (merged.lowConfidence.length > 0) {
+          logger.debug(
+            `${config.lowConfidence === 'flag' ? 'Flagged' : 'Dropped'} tags below confidence ${config.minConfidence} for ${post.relativePath}`,
+            merged.lowConfidence
+          );
+        }
+        merges.set(post.relativePath, merged);
+        historicalTagsMap[post.relativePath] = merged.tags;
+        await options.onPostProcessed?.(post, merged);
       })
     )
   );
 
-  return { results, merges };
+  return { results, merges, requests };
+}
+
+export interface RenderedPrompt {
+  label: string;
+  messages: ChatMessage[];
+}
+
+/**
+ * 返回为文章生成标签时将发送的消息，不调用模型。
+ * 分段策略下最终汇总请求依赖各段的模型输出，其中的候选标签以占位符代替。
+ */
+export async function renderPostPrompts(
+  post: LoadedPost,
+  config: TagSyncConfig,
+  historicalTags: TagsMap,
+  logger: Logger
+): Promise<RenderedPrompt[]> {
+  const { context } = createPromptContext(config, historicalTags, logger);
+  const prompts: RenderedPrompt[] = [];
+  const record: PromptRequester = async (prompt, label) => {
+    prompts.push({ label, messages: buildMessages(prompt, config.promptTemplate.system) });
+    return { tags: ['<候选标签>'], raw: null };
+  };
+  await tagPost(post, historicalTags[post.relativePath] ?? [], context, config, record, logger);
+  return prompts;
+}
+
+const MERGE_CHECK_SYSTEM_PROMPT = '你是一名熟悉技术博客的标签分类专家，负责判断若干标签是否指同一个概念，只按要求的 JSON 格式作答。';
+
+/**
+ * 请模型复核合并建议：列出每组候选，要求返回确实表达同一概念的组编号。
+ * 调用失败时返回 null，由调用方决定是否保留未复核的建议。
+ */
+export async function confirmMergeClusters(
+  clusters: { canonical: string; variants: { tag: string }[] }[],
+  config: TagSyncConfig,
+  logger: Logger
+): Promise<Set<number> | null> {
+  if (clusters.length === 0) return new Set();
+  const groups = clusters
+    .map((cluster, index) => `${index + 1}. ${[cluster.canonical, ...cluster.variants.map((variant) => variant.tag)].join(' / ')}`)
+    .join('\n');
+  const example = config.responseFormat === 'text' ? '["1", "3"]' : '{"tags": ["1", "3"]}';
+  const prompt = `以下每一行是一组可能重复的博客标签：
+
+${groups}
+
+请判断每组标签是否指同一个概念（仅写法、大小写、缩写或中英文不同）。只返回应当合并的组编号，格式为 JSON，例如 ${example}；没有需要合并的组时返回空数组。`;
+
+  // 合并复核与打标签无关，不沿用标签生成模板的系统提示词
+  const response = await callChatCompletion(config, prompt, logger, { scored: false, prune: false }, MERGE_CHECK_SYSTEM_PROMPT);
+  if (response.error) {
+    // 模型明确返回空数组时也会被视为“没有可解析的标签”
+    if (response.raw !== null && parseScoredTags(response.raw)?.length === 0) {
+      return new Set();
+    }
+    logger.warn(`LLM merge check failed: ${response.error.message}`);
+    return null;
+  }
+  return new Set(
+    response.tags.map((tag) => Number.parseInt(tag, 10) - 1).filter((index) => index >= 0 && index < clusters.length)
+  );
 }
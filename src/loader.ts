@@ -1,7 +1,8 @@
 import fs from 'fs/promises';
 import path from 'path';
 import matter from 'gray-matter';
-import { LoadedPost, Logger } from './types';
+import { GitChanges, listGitChanges } from './git';
+import { GitSelection, LoadedPost, Logger } from './types';
 import { ensureArray, toPosix } from './utils';
 
 async function collectMarkdownFiles(rootDir: string): Promise<string[]> {
@@ -35,15 +36,23 @@ interface LoadPostsOptions {
   includeDrafts?: boolean;
   logger?: Logger;
   workspaceRoot?: string;
+  git?: GitSelection | null;
+  /** 调用方已按 `git` 取得的变更列表，传入后不再重复执行 git 命令 */
+  gitChanges?: GitChanges | null;
 }
 
 export async function loadPosts(postRoot: string, options: LoadPostsOptions = {}): Promise<LoadedPost[]> {
-  const { filter = '', includeDrafts = false, logger, workspaceRoot = process.cwd() } = options;
+  const { filter = '', includeDrafts = false, logger, workspaceRoot = process.cwd(), git, gitChanges } = options;
   const files = await collectMarkdownFiles(postRoot);
   const normalizedFilter = filter.trim();
-  const filteredFiles = normalizedFilter
+  let filteredFiles = normalizedFilter
     ? files.filter((filePath) => toPosix(path.relative(postRoot, filePath)).includes(normalizedFilter))
     : files;
+  if (git) {
+    const { paths } = gitChanges ?? (await listGitChanges(workspaceRoot, git));
+    filteredFiles = filteredFiles.filter((filePath) => paths.has(toPosix(path.relative(workspaceRoot, filePath))));
+    logger?.debug?.(`Git selection matched ${filteredFiles.length} of ${files.length} posts.`);
+  }
 
   const posts: LoadedPost[] = [];
   for (const absolutePath of filteredFiles) {
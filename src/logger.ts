@@ -10,9 +10,9 @@ const COLORS = {
   green: '\u001B[32m'
 } as const;
 
-type ColorKey = keyof typeof COLORS;
+export type ColorKey = keyof typeof COLORS;
 
-function colorize(color: ColorKey, text: string, enabled: boolean): string {
+export function colorize(color: ColorKey, text: string, enabled: boolean): string {
   if (!enabled) return text;
   return `${COLORS[color]}${text}${COLORS.reset}`;
 }
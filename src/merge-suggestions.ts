@@ -0,0 +1,267 @@
+import { resolveAlias } from './taxonomy';
+import { TagAliasLookup, TagsMap } from './types';
+
+export interface MergeVariant {
+  tag: string;
+  count: number;
+  /** 使用该标签的文章，合并时这些文章会被改写 */
+  posts: string[];
+}
+
+export interface MergeCluster {
+  canonical: string;
+  /** 不含规范标签本身 */
+  variants: MergeVariant[];
+  /** 簇内最强关联的得分（0-1） */
+  score: number;
+  reasons: string[];
+}
+
+export type MergeSuggestionFormat = 'table' | 'json' | 'rename' | 'aliases';
+
+export const MERGE_SUGGESTION_FORMATS: MergeSuggestionFormat[] = ['table', 'json', 'rename', 'aliases'];
+
+export interface SuggestMergeOptions {
+  minScore: number;
+  aliases?: TagAliasLookup;
+}
+
+interface TagProfile {
+  tag: string;
+  key: string;
+  compact: string;
+  tokens: Set<string>;
+  posts: string[];
+  /** 与其他标签在同一文章中出现的次数 */
+  neighbours: Map<string, number>;
+}
+
+interface PairEvidence {
+  score: number;
+  reasons: string[];
+}
+
+// 编辑距离只对足够长的标签有意义，避免 Go / Git 之类的短标签被误判
+const MIN_EDIT_LENGTH = 4;
+const MIN_EDIT_SIMILARITY = 0.75;
+// 仅凭共现上下文判断时，至少需要共享的相邻标签数
+const MIN_SHARED_NEIGHBOURS = 2;
+
+/** 去掉大小写、空白与常见连接符后的紧凑形式，例如 `Docker Compose` 与 `docker-compose` 相同 */
+function compactKey(tag: string): string {
+  return tag.toLowerCase().replace(/[\s\-_./·]+/g, '');
+}
+
+function tokenize(tag: string): Set<string> {
+  const spaced = tag.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/([A-Za-z])(\d)/g, '$1 $2');
+  return new Set(
+    spaced
+      .toLowerCase()
+      .split(/[\s\-_./·]+/)
+      .filter(Boolean)
+  );
+}
+
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>, exclude: string[]): { similarity: number; shared: number } {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let shared = 0;
+  for (const [key, value] of a) {
+    if (exclude.includes(key)) continue;
+    normA += value * value;
+    const other = b.get(key);
+    if (other) {
+      dot += value * other;
+      shared += 1;
+    }
+  }
+  for (const [key, value] of b) {
+    if (!exclude.includes(key)) normB += value * value;
+  }
+  return { similarity: normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0, shared };
+}
+
+function buildProfiles(tagsMap: TagsMap, aliases: TagAliasLookup): TagProfile[] {
+  const profiles = new Map<string, TagProfile>();
+  for (const [relativePath, tags] of Object.entries(tagsMap)) {
+    if (!Array.isArray(tags)) continue;
+    const resolved = tags.map((tag) => resolveAlias(tag, aliases)).filter(Boolean);
+    const keys = Array.from(new Set(resolved.map((tag) => tag.toLowerCase())));
+    for (const tag of resolved) {
+      const key = tag.toLowerCase();
+      let profile = profiles.get(key);
+      if (!profile) {
+        profile = { tag, key, compact: compactKey(tag), tokens: tokenize(tag), posts: [], neighbours: new Map() };
+        profiles.set(key, profile);
+      }
+      if (profile.posts.includes(relativePath)) continue;
+      profile.posts.push(relativePath);
+      for (const other of keys) {
+        if (other !== key) profile.neighbours.set(other, (profile.neighbours.get(other) ?? 0) + 1);
+      }
+    }
+  }
+  return Array.from(profiles.values());
+}
+
+function comparePair(a: TagProfile, b: TagProfile): PairEvidence | null {
+  // 同一篇文章同时使用两个标签，说明作者认为它们含义不同
+  if (a.neighbours.has(b.key)) return null;
+
+  const context = cosine(a.neighbours, b.neighbours, [a.key, b.key]);
+  let lexical = 0;
+  const reasons: string[] = [];
+  if (a.compact && a.compact === b.compact) {
+    lexical = 1;
+    reasons.push('same spelling ignoring case and separators');
+  } else {
+    const length = Math.max(a.compact.length, b.compact.length);
+    if (Math.min(a.compact.length, b.compact.length) >= MIN_EDIT_LENGTH) {
+      const distance = editDistance(a.compact, b.compact);
+      const similarity = 1 - distance / length;
+      if (similarity >= MIN_EDIT_SIMILARITY) {
+        lexical = similarity;
+        reasons.push(`edit distance ${distance}`);
+      }
+    }
+    const shared = Array.from(a.tokens).filter((token) => b.tokens.has(token));
+    const [shorter, longer] = a.tokens.size <= b.tokens.size ? [a, b] : [b, a];
+    // 较短标签须与较长标签末尾的词一致（`Compose` 与 `Docker Compose`），且两者有共同的相邻标签；
+    // 只与开头修饰词相同的通常是不同的东西，例如 `React` 与 `React Native`、`Linux` 与 `Linux Kernel`
+    const tail = Array.from(longer.tokens).slice(-shorter.tokens.size);
+    if (shared.length > 0 && tail.every((token) => shorter.tokens.has(token)) && context.shared > 0) {
+      const overlap = shared.length / new Set([...a.tokens, ...b.tokens]).size;
+      const score = 0.5 + 0.3 * overlap;
+      if (score > lexical) lexical = score;
+      reasons.push(`shared words: ${shared.join(', ')}`);
+    }
+  }
+
+  if (context.shared > 0 && context.similarity > 0) {
+    reasons.push(`co-occur with the same tags (${context.similarity.toFixed(2)})`);
+  }
+  const score =
+    lexical > 0
+      ? 0.8 * lexical + 0.2 * context.similarity
+      : context.shared >= MIN_SHARED_NEIGHBOURS
+      ? 0.8 * context.similarity
+      : 0;
+  return score > 0 ? { score, reasons } : null;
+}
+
+function pickCanonical(members: TagProfile[], aliases: TagAliasLookup): TagProfile {
+  const isCanonical = (profile: TagProfile) => Object.values(aliases).includes(profile.tag);
+  return [...members].sort(
+    (a, b) =>
+      Number(isCanonical(b)) - Number(isCanonical(a)) ||
+      b.posts.length - a.posts.length ||
+      b.tokens.size - a.tokens.size ||
+      a.tag.localeCompare(b.tag, 'zh-CN')
+  )[0];
+}
+
+/**
+ * 对全站标签聚类，给出可能重复的标签组及建议的规范名称。
+ * 综合四类信号：忽略大小写与连接符后的拼写、编辑距离、词语重合，以及与其他标签的共现上下文；
+ * 曾在同一篇文章中同时出现的两个标签不会被视为重复。
+ */
+export function suggestTagMerges(tagsMap: TagsMap, options: SuggestMergeOptions): MergeCluster[] {
+  const aliases = options.aliases ?? {};
+  const profiles = buildProfiles(tagsMap, aliases);
+  const parent = profiles.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const members = new Map(profiles.map((_, index) => [index, [index]]));
+  const evidence = new Map<number, PairEvidence>();
+
+  const pairs: Array<{ i: number; j: number } & PairEvidence> = [];
+  for (let i = 0; i < profiles.length; i += 1) {
+    for (let j = i + 1; j < profiles.length; j += 1) {
+      const pair = comparePair(profiles[i], profiles[j]);
+      if (pair && pair.score >= options.minScore) pairs.push({ i, j, ...pair });
+    }
+  }
+
+  // 从最强的关联开始合并；若合并后簇内会出现曾在同一文章中共现的标签，则放弃这次合并
+  for (const pair of pairs.sort((a, b) => b.score - a.score)) {
+    const [rootI, rootJ] = [find(pair.i), find(pair.j)];
+    if (rootI === rootJ) continue;
+    const left = members.get(rootI) ?? [];
+    const right = members.get(rootJ) ?? [];
+    if (left.some((a) => right.some((b) => profiles[a].neighbours.has(profiles[b].key)))) continue;
+    parent[rootJ] = rootI;
+    members.set(rootI, [...left, ...right]);
+    members.delete(rootJ);
+    const previous = [evidence.get(rootI), evidence.get(rootJ)];
+    evidence.set(rootI, {
+      score: Math.max(pair.score, ...previous.map((item) => item?.score ?? 0)),
+      reasons: Array.from(new Set([...previous.flatMap((item) => item?.reasons ?? []), ...pair.reasons]))
+    });
+    evidence.delete(rootJ);
+  }
+
+  const clusters: MergeCluster[] = [];
+  for (const [root, indexes] of members) {
+    if (indexes.length < 2) continue;
+    const group = indexes.map((index) => profiles[index]);
+    const canonical = pickCanonical(group, aliases);
+    const info = evidence.get(root) ?? { score: 0, reasons: [] };
+    clusters.push({
+      canonical: canonical.tag,
+      variants: group
+        .filter((member) => member !== canonical)
+        .map((member) => ({ tag: member.tag, count: member.posts.length, posts: [...member.posts].sort() }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, 'zh-CN')),
+      score: Math.round(info.score * 100) / 100,
+      reasons: info.reasons
+    });
+  }
+  return clusters.sort((a, b) => b.score - a.score || a.canonical.localeCompare(b.canonical, 'zh-CN'));
+}
+
+export function renderMergeSuggestions(clusters: MergeCluster[], format: MergeSuggestionFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(clusters, null, 2);
+    case 'rename':
+      return JSON.stringify(
+        Object.fromEntries(clusters.flatMap((cluster) => cluster.variants.map((variant) => [variant.tag, cluster.canonical]))),
+        null,
+        2
+      );
+    case 'aliases':
+      return JSON.stringify(
+        Object.fromEntries(clusters.map((cluster) => [cluster.canonical, cluster.variants.map((variant) => variant.tag)])),
+        null,
+        2
+      );
+    default: {
+      if (clusters.length === 0) return 'No near-duplicate tags found.';
+      const lines: string[] = [];
+      for (const cluster of clusters) {
+        lines.push(`${cluster.canonical}  (score ${cluster.score.toFixed(2)}; ${cluster.reasons.join('; ')})`);
+        for (const variant of cluster.variants) {
+          const preview = variant.posts.slice(0, 3).join(', ');
+          const more = variant.posts.length > 3 ? `, +${variant.posts.length - 3} more` : '';
+          lines.push(`  <- ${variant.tag}  [${variant.count} post${variant.count === 1 ? '' : 's'}: ${preview}${more}]`);
+        }
+      }
+      lines.push(`${clusters.length} suggested merge${clusters.length === 1 ? '' : 's'}.`);
+      return lines.join('\n');
+    }
+  }
+}
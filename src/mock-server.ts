@@ -0,0 +1,217 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { sleep } from './utils';
+
+export type MockApiFlavor = 'openai' | 'anthropic' | 'ollama';
+
+export interface MockChatRequest {
+  path: string;
+  flavor: MockApiFlavor;
+  headers: http.IncomingHttpHeaders;
+  body: {
+    model?: string;
+    messages?: { role: string; content: string }[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * 单次脚本化响应：
+ * - `content`：以 OpenAI Chat Completions 结构返回该文本
+ * - `toolCall`：以 function calling 结构返回工具调用参数
+ * - `status` + `body`：返回指定状态码与原始响应体（可用于模拟 HTTP 错误）
+ * - `raw`：以 200 返回原始文本（可用于模拟非法 JSON）
+ * - `delayMs`：响应前等待，用于模拟慢响应与超时
+ */
+export interface MockReply {
+  content?: string;
+  toolCall?: { name: string; arguments: string };
+  status?: number;
+  body?: string;
+  raw?: string;
+  delayMs?: number;
+}
+
+export type MockResponder = (request: MockChatRequest, index: number) => MockReply | Promise<MockReply>;
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  replies?: MockReply[];
+  respond?: MockResponder;
+  fallback?: MockReply;
+  /** `/embeddings` 路由为每条输入返回的向量，默认返回零向量 */
+  embed?: (input: string) => number[];
+}
+
+export interface MockEmbeddingRequest {
+  model?: string;
+  input: string[];
+}
+
+export interface MockServer {
+  /** OpenAI / Anthropic 风格的 Base URL（带 `/v1`） */
+  url: string;
+  /** 不带路径的服务地址，可作为 Ollama 的 Base URL */
+  origin: string;
+  requests: MockChatRequest[];
+  embeddingRequests: MockEmbeddingRequest[];
+  close(): Promise<void>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+export function buildChatCompletion(
+  content: string | null,
+  model = 'mock-model',
+  toolCall?: MockReply['toolCall']
+): Record<string, unknown> {
+  const message: Record<string, unknown> = { role: 'assistant', content };
+  if (toolCall) {
+    message.tool_calls = [{ id: 'call-mock', type: 'function', function: toolCall }];
+  }
+  return {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message, finish_reason: toolCall ? 'tool_calls' : 'stop' }]
+  };
+}
+
+function buildAnthropicMessage(content: string | null, model = 'mock-model', toolCall?: MockReply['toolCall']) {
+  const blocks: Record<string, unknown>[] = [];
+  if (content) {
+    blocks.push({ type: 'text', text: content });
+  }
+  if (toolCall) {
+    blocks.push({ type: 'tool_use', id: 'toolu-mock', name: toolCall.name, input: JSON.parse(toolCall.arguments) });
+  }
+  return {
+    id: 'msg-mock',
+    type: 'message',
+    role: 'assistant',
+    model,
+    content: blocks,
+    stop_reason: toolCall ? 'tool_use' : 'end_turn'
+  };
+}
+
+function buildOllamaChat(content: string | null, model = 'mock-model', toolCall?: MockReply['toolCall']) {
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message: { role: 'assistant', content: toolCall ? toolCall.arguments : content ?? '' },
+    done: true
+  };
+}
+
+function detectFlavor(url: string): MockApiFlavor | null {
+  if (url.endsWith('/chat/completions')) return 'openai';
+  if (url.endsWith('/messages')) return 'anthropic';
+  if (url.endsWith('/api/chat')) return 'ollama';
+  return null;
+}
+
+/**
+ * 启动一个本地假模型服务，兼容 OpenAI `/chat/completions`、`/embeddings`、Anthropic `/messages` 与 Ollama `/api/chat`，
+ * 按脚本返回响应，便于离线测试。
+ * 优先使用 `respond`，其次按顺序消费 `replies`，都没有时返回 `fallback`（默认空标签数组）。
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const queue = [...(options.replies ?? [])];
+  const fallback = options.fallback ?? { content: '[]' };
+  const requests: MockChatRequest[] = [];
+  const embeddingRequests: MockEmbeddingRequest[] = [];
+  const embed = options.embed ?? (() => [0, 0, 0]);
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const rawBody = await readBody(req);
+      if (req.method === 'POST' && req.url?.endsWith('/embeddings')) {
+        const body = JSON.parse(rawBody) as { model?: string; input?: string | string[] };
+        const input = Array.isArray(body.input) ? body.input : [String(body.input ?? '')];
+        embeddingRequests.push({ model: body.model, input });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            object: 'list',
+            model: body.model ?? 'mock-embedding',
+            data: input.map((text, index) => ({ object: 'embedding', index, embedding: embed(text) }))
+          })
+        );
+        return;
+      }
+      const flavor = detectFlavor(req.url ?? '');
+      if (req.method !== 'POST' || !req.url || !flavor) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `Unknown route ${req.method} ${req.url}` } }));
+        return;
+      }
+
+      let body: MockChatRequest['body'] = {};
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Invalid JSON body' } }));
+        return;
+      }
+
+      const request: MockChatRequest = { path: req.url, flavor, headers: req.headers, body };
+      const index = requests.length;
+      requests.push(request);
+
+      const reply = options.respond ? await options.respond(request, index) : queue.shift() ?? fallback;
+      if (reply.delayMs) {
+        await sleep(reply.delayMs);
+      }
+      if (res.destroyed) return;
+
+      if (reply.raw !== undefined) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(reply.raw);
+        return;
+      }
+      if (reply.status && reply.status >= 400) {
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(reply.body ?? JSON.stringify({ error: { message: `Mock error ${reply.status}` } }));
+        return;
+      }
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      const content = reply.toolCall ? reply.content ?? null : reply.content ?? '[]';
+      const builders = { openai: buildChatCompletion, anthropic: buildAnthropicMessage, ollama: buildOllamaChat };
+      res.end(reply.body ?? JSON.stringify(builders[flavor](content, body.model, reply.toolCall)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message } }));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  const origin = `http://${address.address}:${address.port}`;
+  return {
+    url: `${origin}/v1`,
+    origin,
+    requests,
+    embeddingRequests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections?.();
+        server.close((error) => (error ? reject(error) : resolve()));
+      })
+  };
+}
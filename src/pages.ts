@@ -0,0 +1,262 @@
+import fs from 'fs/promises';
+import matter from 'gray-matter';
+import path from 'path';
+import { buildCacheKey } from './cache';
+import { normalizeTag } from './taxonomy';
+import { LoadedPost, TagsMap } from './types';
+import { toPosix } from './utils';
+
+export type PageSectionName = 'description' | 'posts' | 'related';
+
+export const PAGE_SECTIONS: PageSectionName[] = ['description', 'posts', 'related'];
+
+/** 写入标签页 front-matter 的元数据，用于判断是否需要重新生成以及哪些区块被手动修改过 */
+export interface PageMetadata {
+  hash: string;
+  sections: Partial<Record<PageSectionName, string>>;
+}
+
+export interface TagPagePost {
+  post: LoadedPost;
+  tags: string[];
+  date: Date | null;
+}
+
+export interface TagPage {
+  tag: string;
+  slug: string;
+  posts: TagPagePost[];
+  /** 与该标签共同出现次数最多的其他标签 */
+  related: Array<{ tag: string; slug: string; count: number }>;
+  /** 成员文章的标题、日期、摘要与标签指纹；不变时无需重新生成 */
+  hash: string;
+}
+
+export interface ExistingPage {
+  data: Record<string, unknown>;
+  content: string;
+  metadata: PageMetadata | null;
+}
+
+// 修改页面模板时递增，使已有页面在下次运行时重新生成
+const PAGE_VERSION = 1;
+const METADATA_KEY = 'tag_sync';
+const RELATED_LIMIT = 8;
+
+const sectionStart = (name: PageSectionName) => `<!-- tag-sync:start ${name} -->`;
+const sectionEnd = (name: PageSectionName) => `<!-- tag-sync:end ${name} -->`;
+
+/**
+ * 与 Hexo 默认的标签 slug 规则保持一致：保留大小写与中文，替换空白及 URL / 文件名中的保留字符。
+ */
+export function slugifyTag(tag: string): string {
+  return normalizeTag(tag)
+    .replace(/[\s~`!@#$%^&*()\-_+=[\]{}|\\;:"'<>,.?/]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * 为每个标签分配唯一的页面目录（键为小写标签）。`C++`、`C#` 与 `C` 等只差符号的标签会得到相同的 slug，
+ * 纯符号标签的 slug 为空（会覆盖 Hexo 的 `tags/index.md`）：这些情况下除与 slug 完全同名的标签外，其余标签追加由标签名计算的短哈希。
+ */
+export function assignSlugs(tags: string[]): Map<string, string> {
+  const byBase = new Map<string, string[]>();
+  for (const tag of tags) {
+    const base = slugifyTag(tag);
+    byBase.set(base.toLowerCase(), [...(byBase.get(base.toLowerCase()) ?? []), tag]);
+  }
+  const slugs = new Map<string, string>();
+  for (const [base, group] of byBase) {
+    for (const tag of group) {
+      const slug = slugifyTag(tag);
+      const unique = base !== '' && (group.length === 1 || slug === normalizeTag(tag));
+      slugs.set(tag.toLowerCase(), unique ? slug : `${slug || 'tag'}-${buildCacheKey(tag).slice(0, 8)}`);
+    }
+  }
+  return slugs;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = new Date(value.trim().replace(' ', 'T'));
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : '';
+}
+
+/** 标签页中每篇文章下方展示的摘要 */
+function summarize(post: LoadedPost): string {
+  return post.excerpt.length > 120 ? `${post.excerpt.slice(0, 120)}…` : post.excerpt;
+}
+
+function hashSection(body: string): string {
+  return buildCacheKey(body.trim()).slice(0, 16);
+}
+
+/**
+ * 按标签汇总文章（忽略大小写），文章按日期从新到旧排列，相关标签按共现次数排列。
+ */
+export function buildTagPages(posts: LoadedPost[], tagsMap: TagsMap): TagPage[] {
+  const groups = new Map<string, { tag: string; posts: TagPagePost[] }>();
+  for (const post of posts) {
+    const tags = tagsMap[post.relativePath];
+    if (!Array.isArray(tags)) continue;
+    const entry: TagPagePost = { post, tags, date: parseDate(post.frontMatter.date) };
+    for (const tag of new Set(tags.map((item) => normalizeTag(item)).filter(Boolean))) {
+      const key = tag.toLowerCase();
+      const group = groups.get(key) ?? { tag, posts: [] };
+      if (!group.posts.includes(entry)) group.posts.push(entry);
+      groups.set(key, group);
+    }
+  }
+
+  const slugs = assignSlugs(Array.from(groups.values()).map((group) => group.tag));
+  const pages: TagPage[] = [];
+  for (const [key, group] of groups) {
+    group.posts.sort(
+      (a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0) || a.post.relativePath.localeCompare(b.post.relativePath, 'en-US')
+    );
+    const counts = new Map<string, { tag: string; count: number }>();
+    for (const { tags } of group.posts) {
+      for (const tag of tags) {
+        const otherKey = tag.toLowerCase();
+        if (otherKey === key) continue;
+        const entry = counts.get(otherKey) ?? { tag, count: 0 };
+        entry.count += 1;
+        counts.set(otherKey, entry);
+      }
+    }
+    const related = Array.from(counts.values())
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, 'zh-CN'))
+      .slice(0, RELATED_LIMIT)
+      .map((entry) => ({ ...entry, slug: slugs.get(normalizeTag(entry.tag).toLowerCase()) ?? slugifyTag(entry.tag) }));
+    pages.push({
+      tag: group.tag,
+      slug: slugs.get(key) ?? slugifyTag(group.tag),
+      posts: group.posts,
+      related,
+      hash: buildCacheKey({
+        version: PAGE_VERSION,
+        posts: group.posts.map(({ post, tags, date }) => [post.relativePath, post.title, formatDate(date), summarize(post), tags])
+      })
+    });
+  }
+  return pages.sort((a, b) => a.tag.localeCompare(b.tag, 'zh-CN'));
+}
+
+export function pagePath(pagesDir: string, page: Pick<TagPage, 'slug'>): string {
+  return path.join(pagesDir, page.slug, 'index.md');
+}
+
+export async function readExistingPage(filePath: string): Promise<ExistingPage | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  const parsed = matter(raw);
+  const metadata = parsed.data[METADATA_KEY] as PageMetadata | undefined;
+  return {
+    data: parsed.data,
+    content: parsed.content,
+    metadata: metadata && typeof metadata.hash === 'string' ? { hash: metadata.hash, sections: metadata.sections ?? {} } : null
+  };
+}
+
+function extractSection(content: string, name: PageSectionName): string | null {
+  const start = content.indexOf(sectionStart(name));
+  const end = content.indexOf(sectionEnd(name));
+  if (start === -1 || end === -1 || end < start) return null;
+  return content.slice(start + sectionStart(name).length, end).trim();
+}
+
+/**
+ * 判断已有页面中哪些区块需要保留：区块标记被删除，或区块内容与上次生成时的指纹不一致，都视为手动维护。
+ */
+export function manuallyEditedSections(existing: ExistingPage | null): Set<PageSectionName> {
+  const kept = new Set<PageSectionName>();
+  if (!existing) return kept;
+  for (const name of PAGE_SECTIONS) {
+    const body = extractSection(existing.content, name);
+    const recorded = existing.metadata?.sections[name];
+    if (body === null || !recorded || hashSection(body) !== recorded) {
+      kept.add(name);
+    }
+  }
+  return kept;
+}
+
+export function renderPostsSection(page: TagPage, postRoot: string, workspaceRoot: string, language: string): string {
+  const heading = language === 'en' ? '## Posts' : '## 文章';
+  const items = page.posts.map(({ post, date }) => {
+    // post_link 使用相对 `_posts` 目录、不含扩展名的路径，与站点的 permalink 设置无关
+    const slug = toPosix(path.relative(postRoot, path.resolve(workspaceRoot, post.relativePath))).replace(/\.md$/i, '');
+    const summary = summarize(post);
+    const prefix = date ? `${formatDate(date)} · ` : '';
+    return `- ${prefix}{% post_link ${slug} "${post.title.replace(/"/g, "'")}" %}${summary ? `\n  > ${summary}` : ''}`;
+  });
+  return [heading, '', ...items].join('\n');
+}
+
+export function renderRelatedSection(page: TagPage, language: string): string {
+  if (page.related.length === 0) return '';
+  const heading = language === 'en' ? '## Related tags' : '## 相关标签';
+  const items = page.related.map((entry) => `- [${entry.tag}](../${encodeURI(entry.slug)}/) (${entry.count})`);
+  return [heading, '', ...items].join('\n');
+}
+
+/**
+ * 组装页面：已有页面只替换未被手动修改的区块，区块之外的内容与其他 front-matter 字段原样保留。
+ */
+export function renderTagPage(
+  page: TagPage,
+  generated: Partial<Record<PageSectionName, string>>,
+  existing: ExistingPage | null
+): string {
+  const kept = manuallyEditedSections(existing);
+  const sections: Partial<Record<PageSectionName, string>> = {};
+  let content = existing?.content ?? `\n${PAGE_SECTIONS.map((name) => `${sectionStart(name)}\n${sectionEnd(name)}`).join('\n\n')}\n`;
+
+  for (const name of PAGE_SECTIONS) {
+    if (kept.has(name)) {
+      const recorded = existing?.metadata?.sections[name];
+      if (recorded) sections[name] = recorded;
+      continue;
+    }
+    const body = (generated[name] ?? extractSection(content, name) ?? '').trim();
+    const start = content.indexOf(sectionStart(name));
+    const end = content.indexOf(sectionEnd(name));
+    content = `${content.slice(0, start + sectionStart(name).length)}\n${body}${body ? '\n' : ''}${content.slice(end)}`;
+    sections[name] = hashSection(body);
+  }
+
+  const metadata: PageMetadata = { hash: page.hash, sections };
+  const data = { title: page.tag, ...(existing?.data ?? {}), [METADATA_KEY]: metadata };
+  return matter.stringify(content, data);
+}
+
+export function buildDescriptionPrompt(page: TagPage, language: string): string {
+  const titles = page.posts
+    .slice(0, 20)
+    .map(({ post }) => `- ${post.title}`)
+    .join('\n');
+  const related = page.related.map((entry) => entry.tag).join(', ') || '（无）';
+  const languageLabel = language === 'en' ? '英文' : '中文';
+  return `你是一名技术博客编辑，请为博客标签「${page.tag}」撰写标签页的简介。
+
+该标签下的文章标题：
+${titles}
+
+常与该标签一同出现的标签：${related}
+
+要求：
+1. 使用${languageLabel}，2-3 句话，介绍这个标签涵盖的主题以及读者能在这些文章中找到什么。
+2. 直接输出简介正文，不要使用标题、列表或代码块，不要逐篇复述文章标题。`;
+}
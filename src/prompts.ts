@@ -0,0 +1,109 @@
+import { buildCacheKey } from './cache';
+import { PromptTemplate } from './types';
+import { hasOwn } from './utils';
+
+export type PromptVariables = Record<string, string>;
+
+/** 标签 prompt（`user`）可用的变量 */
+export const POST_PROMPT_VARIABLES = [
+  'title',
+  'tags',
+  'history',
+  'vocabulary',
+  'contentLabel',
+  'content',
+  'language',
+  'outputFormat',
+  'reuseRule',
+  'extraRules'
+];
+
+/** 长文分段 prompt（`chunk`）可用的变量 */
+export const CHUNK_PROMPT_VARIABLES = ['title', 'chunk', 'chunkIndex', 'chunkTotal', 'language', 'outputFormat'];
+
+// 修改默认 prompt 内容或输出约定时递增，--changed 模式据此重新生成标签
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: '1',
+  system: '你是一个优秀的中文技术标签生成器。',
+  user: `你是一名熟悉技术博客的标签分类专家，请基于完整文章生成 3-6 个高质量标签。
+
+文章标题：{{title}}
+Front-matter 标签：{{tags}}
+历史标签（tags.json）：{{history}}
+全站已有标签（按使用频次排序）：{{vocabulary}}
+
+{{contentLabel}}
+{{content}}
+
+要求：
+1. 优先复用已有标签；若含义适用，请直接保留。
+2. 对英文技术专有名词（协议、框架、API、库等）保持英文，不要翻译成中文。
+3. 标签需具体、可复用，避免过宽泛，例如“技术”或“学习”。
+4. {{reuseRule}}
+5. 输出采用 {{language}} 为主，可中英混用，格式为 {{outputFormat}}.{{extraRules}}`,
+  chunk: `你是一名熟悉技术博客的标签分类专家。以下是文章《{{title}}》的第 {{chunkIndex}}/{{chunkTotal}} 部分，请为这一部分提取 3-6 个候选标签。
+
+{{chunk}}
+
+要求：
+1. 对英文技术专有名词（协议、框架、API、库等）保持英文，不要翻译成中文。
+2. 标签需具体、可复用，避免过宽泛，例如“技术”或“学习”。
+3. 输出采用 {{language}} 为主，可中英混用，格式为 {{outputFormat}}.`
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * 替换模板中的 `{{name}}` 占位符。只扫描一遍，变量值（例如正文）中的花括号不会被再次替换。
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => (hasOwn(variables, name) ? variables[name] : match));
+}
+
+function readField(value: unknown, field: string, source: string): string | undefined {
+  if (value === undefined) return undefined;
+  // 允许以字符串数组逐行书写，便于在 JSON 中维护多行 prompt
+  if (Array.isArray(value) && value.every((line) => typeof line === 'string')) return value.join('\n');
+  if (typeof value === 'string') return value;
+  throw new Error(`Tag Sync: "${field}" in prompt template ${source} must be a string or an array of lines.`);
+}
+
+function assertVariables(template: string, allowed: string[], field: string, source: string): void {
+  for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+    if (!allowed.includes(name)) {
+      throw new Error(
+        `Tag Sync: Unknown variable {{${name}}} in "${field}" of prompt template ${source}. Available: ${allowed.join(', ')}.`
+      );
+    }
+  }
+}
+
+/**
+ * 解析 `TAG_SYNC_PROMPT_FILE` 的内容：未提供的字段沿用默认模板；
+ * 未指定 `version` 时以模板内容的哈希作为版本号，模板一旦改动，`--changed` 即会重新生成标签。
+ */
+export function parsePromptTemplate(parsed: unknown, source: string): PromptTemplate {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Tag Sync: Prompt template ${source} must be an object with "system", "user" and optional "chunk" / "version".`);
+  }
+  const raw = parsed as Record<string, unknown>;
+  const system = readField(raw.system, 'system', source) ?? DEFAULT_PROMPT_TEMPLATE.system;
+  const user = readField(raw.user, 'user', source) ?? DEFAULT_PROMPT_TEMPLATE.user;
+  const chunk = readField(raw.chunk, 'chunk', source) ?? DEFAULT_PROMPT_TEMPLATE.chunk;
+  assertVariables(system, [], 'system', source);
+  assertVariables(user, POST_PROMPT_VARIABLES, 'user', source);
+  assertVariables(chunk, CHUNK_PROMPT_VARIABLES, 'chunk', source);
+  if (!Array.from(user.matchAll(VARIABLE_PATTERN)).some(([, name]) => name === 'content')) {
+    throw new Error(`Tag Sync: "user" in prompt template ${source} must reference {{content}}.`);
+  }
+
+  let version: string;
+  if (raw.version === undefined) {
+    version = `custom-${buildCacheKey({ system, user, chunk }).slice(0, 8)}`;
+  } else if ((typeof raw.version === 'string' && raw.version.trim()) || typeof raw.version === 'number') {
+    version = String(raw.version).trim();
+  } else {
+    throw new Error(`Tag Sync: "version" in prompt template ${source} must be a non-empty string.`);
+  }
+  return { version, system, user, chunk };
+}
@@ -0,0 +1,221 @@
+import { ProviderName, ResponseFormatMode } from './types';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  mode: ResponseFormatMode;
+  /** 使用带置信度与理由的标签对象结构 */
+  scored?: boolean;
+  /** 同时返回需要移除的已有标签 */
+  prune?: boolean;
+}
+
+export interface ProviderAdapter {
+  name: ProviderName;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  endpoint(baseUrl: string): string;
+  headers(apiKey: string): Record<string, string>;
+  buildBody(request: ChatRequest): Record<string, unknown>;
+  extractContent(json: unknown, mode: ResponseFormatMode): string;
+}
+
+export const TAGS_SCHEMA = {
+  type: 'object',
+  properties: {
+    tags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['tags'],
+  additionalProperties: false
+} as const;
+
+export const SCORED_TAGS_SCHEMA = {
+  type: 'object',
+  properties: {
+    tags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          tag: { type: 'string' },
+          confidence: { type: 'number' },
+          reason: { type: 'string' }
+        },
+        required: ['tag', 'confidence', 'reason'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['tags'],
+  additionalProperties: false
+} as const;
+
+function tagsSchema(request: ChatRequest) {
+  const base = request.scored ? SCORED_TAGS_SCHEMA : TAGS_SCHEMA;
+  if (!request.prune) return base;
+  return {
+    ...base,
+    properties: { ...base.properties, remove: { type: 'array', items: { type: 'string' } } },
+    required: ['tags', 'remove']
+  };
+}
+
+export const TAGS_TOOL_NAME = 'submit_tags';
+const TAGS_TOOL_DESCRIPTION = '提交为文章生成的标签列表';
+
+interface OpenAiChatResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+}
+
+interface AnthropicMessagesResponse {
+  content?: { type?: string; text?: string; name?: string; input?: unknown }[];
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+}
+
+const openAiProvider: ProviderAdapter = {
+  name: 'openai',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o-mini',
+  requiresApiKey: true,
+  endpoint: (baseUrl) => `${baseUrl}/chat/completions`,
+  headers: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+  buildBody(request) {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    };
+    switch (request.mode) {
+      case 'json_object':
+        body.response_format = { type: 'json_object' };
+        break;
+      case 'json_schema':
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: { name: 'post_tags', strict: true, schema: tagsSchema(request) }
+        };
+        break;
+      case 'tool':
+        body.tools = [
+          {
+            type: 'function',
+            function: { name: TAGS_TOOL_NAME, description: TAGS_TOOL_DESCRIPTION, parameters: tagsSchema(request) }
+          }
+        ];
+        body.tool_choice = { type: 'function', function: { name: TAGS_TOOL_NAME } };
+        break;
+      default:
+        break;
+    }
+    return body;
+  },
+  extractContent(json, mode) {
+    const message = (json as OpenAiChatResponse).choices?.[0]?.message;
+    if (mode === 'tool') {
+      const call = message?.tool_calls?.find((item) => item.function?.name === TAGS_TOOL_NAME) ?? message?.tool_calls?.[0];
+      if (call?.function?.arguments) {
+        return call.function.arguments;
+      }
+    }
+    return message?.content ?? '';
+  }
+};
+
+const anthropicProvider: ProviderAdapter = {
+  name: 'anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  defaultModel: 'claude-3-5-haiku-latest',
+  requiresApiKey: true,
+  endpoint: (baseUrl) => `${baseUrl}/messages`,
+  headers: (apiKey) => ({ 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' }),
+  buildBody(request) {
+    // Messages API 的 system 为顶层字段；没有 response_format，JSON 模式仅依赖 prompt 约束
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages.filter((message) => message.role !== 'system'),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (request.mode === 'tool' || request.mode === 'json_schema') {
+      body.tools = [{ name: TAGS_TOOL_NAME, description: TAGS_TOOL_DESCRIPTION, input_schema: tagsSchema(request) }];
+      body.tool_choice = { type: 'tool', name: TAGS_TOOL_NAME };
+    }
+    return body;
+  },
+  extractContent(json, mode) {
+    const blocks = (json as AnthropicMessagesResponse).content ?? [];
+    if (mode === 'tool' || mode === 'json_schema') {
+      const toolUse = blocks.find((block) => block.type === 'tool_use' && block.name === TAGS_TOOL_NAME);
+      if (toolUse?.input !== undefined) {
+        return JSON.stringify(toolUse.input);
+      }
+    }
+    return blocks
+      .filter((block) => block.type === 'text' && typeof block.text === 'string')
+      .map((block) => block.text)
+      .join('');
+  }
+};
+
+const ollamaProvider: ProviderAdapter = {
+  name: 'ollama',
+  defaultBaseUrl: 'http://127.0.0.1:11434',
+  defaultModel: 'qwen2.5:7b',
+  requiresApiKey: false,
+  endpoint: (baseUrl) => `${baseUrl}/api/chat`,
+  // 本地 Ollama 无需鉴权；经反向代理暴露时可通过 API Key 传递 Bearer Token
+  headers: (apiKey): Record<string, string> => (apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  buildBody(request) {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      stream: false,
+      options: { temperature: request.temperature, num_predict: request.maxTokens }
+    };
+    if (request.mode === 'json_object') {
+      body.format = 'json';
+    } else if (request.mode === 'json_schema' || request.mode === 'tool') {
+      body.format = tagsSchema(request);
+    }
+    return body;
+  },
+  extractContent(json) {
+    return (json as OllamaChatResponse).message?.content ?? '';
+  }
+};
+
+const PROVIDERS: Record<ProviderName, ProviderAdapter> = {
+  openai: openAiProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+export function getProvider(name: ProviderName): ProviderAdapter {
+  return PROVIDERS[name];
+}
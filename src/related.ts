@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import { truncateToTokens } from './tokens';
+import { LoadedPost, Logger, TagSyncConfig } from './types';
+import { writeFileAtomic } from './utils';
+
+export interface RelatedPost {
+  path: string;
+  title: string;
+  /** 综合得分：向量余弦相似度与标签重合度按 `relatedTagWeight` 加权 */
+  score: number;
+  similarity: number;
+  sharedTags: string[];
+}
+
+export type RelatedMap = Record<string, RelatedPost[]>;
+
+export interface RelatedCandidate {
+  path: string;
+  title: string;
+  tags: string[];
+  embedding: number[];
+}
+
+export interface RelatedOptions {
+  limit: number;
+  tagWeight: number;
+  /** 只为这些文章计算相关文章，其余文章仍作为候选参与排序；未指定时计算全部文章 */
+  only?: Set<string>;
+}
+
+// 单篇文章送入向量模型的正文上限，标题与正文开头已足以刻画主题
+const EMBEDDING_TOKEN_BUDGET = 2000;
+
+export function buildEmbeddingText(post: LoadedPost, model?: string): string {
+  return `${post.title}\n\n${truncateToTokens(post.content.trim(), EMBEDDING_TOKEN_BUDGET, model)}`;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * 为每篇文章挑选得分最高的 `limit` 篇相关文章；得分不大于 0 的候选不会出现在结果中。
+ * 标签重合度为 Jaccard 系数（忽略大小写）。
+ */
+export function buildRelatedMap(candidates: RelatedCandidate[], options: RelatedOptions): RelatedMap {
+  const tagKeys = candidates.map((candidate) => new Set(candidate.tags.map((tag) => tag.toLowerCase())));
+  const related: RelatedMap = {};
+  for (const [index, candidate] of candidates.entries()) {
+    if (options.only && !options.only.has(candidate.path)) continue;
+    const neighbours: RelatedPost[] = [];
+    for (const [otherIndex, other] of candidates.entries()) {
+      if (otherIndex === index) continue;
+      const sharedTags = other.tags.filter((tag) => tagKeys[index].has(tag.toLowerCase()));
+      const union = new Set([...tagKeys[index], ...tagKeys[otherIndex]]).size;
+      const overlap = union > 0 ? sharedTags.length / union : 0;
+      const similarity = cosineSimilarity(candidate.embedding, other.embedding);
+      const score = (1 - options.tagWeight) * similarity + options.tagWeight * overlap;
+      if (score <= 0) continue;
+      neighbours.push({ path: other.path, title: other.title, score: round(score), similarity: round(similarity), sharedTags });
+    }
+    neighbours.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path, 'en-US'));
+    related[candidate.path] = neighbours.slice(0, options.limit);
+  }
+  return Object.fromEntries(Object.entries(related).sort((a, b) => a[0].localeCompare(b[0], 'en-US')));
+}
+
+export async function readRelatedFile(filePath: string, logger: Logger): Promise<RelatedMap> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8')) as RelatedMap;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug?.(`Existing related file not found at ${filePath}.`);
+      return {};
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn?.(`Failed to read existing related file: ${message}`);
+    return {};
+  }
+}
+
+/**
+ * 将部分文章的计算结果合并进已有的相关文章：只替换 `updated` 中的文章，并移除已不存在的文章。
+ */
+export function mergeRelatedMap(existing: RelatedMap, updated: RelatedMap, existingPaths: Set<string>): RelatedMap {
+  const merged: RelatedMap = {};
+  for (const [relativePath, neighbours] of Object.entries({ ...existing, ...updated })) {
+    if (!existingPaths.has(relativePath)) continue;
+    merged[relativePath] = neighbours.filter((neighbour) => existingPaths.has(neighbour.path));
+  }
+  return Object.fromEntries(Object.entries(merged).sort((a, b) => a[0].localeCompare(b[0], 'en-US')));
+}
+
+export async function writeRelatedFile(related: RelatedMap, config: Pick<TagSyncConfig, 'relatedJsonPath'>): Promise<void> {
+  await writeFileAtomic(config.relatedJsonPath, JSON.stringify(related, null, 2));
+}
@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import { dedupe, normalizeTag } from './taxonomy';
+import { TagsMap } from './types';
+
+export type TagRenameMap = Record<string, string>;
+
+export interface RenameChange {
+  path: string;
+  before: string[];
+  after: string[];
+}
+
+export async function loadRenameMap(filePath: string): Promise<TagRenameMap> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to read rename mapping from ${filePath}: ${message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Tag Sync: Rename mapping in ${filePath} must be an object of "from" -> "to" tags.`);
+  }
+  const entries = Object.entries(parsed as Record<string, unknown>).filter(
+    ([, to]) => typeof to === 'string' && normalizeTag(to)
+  ) as Array<[string, string]>;
+  return Object.fromEntries(entries);
+}
+
+export function renameTags(
+  tagsMap: TagsMap,
+  renames: TagRenameMap,
+  sortTags: boolean
+): { tagsMap: TagsMap; changes: RenameChange[] } {
+  // 与 dedupe 相同：归一化空白后忽略大小写匹配
+  const lookup = new Map<string, string>();
+  for (const [from, to] of Object.entries(renames)) {
+    const key = normalizeTag(from).toLowerCase();
+    const target = normalizeTag(to);
+    if (key && target) {
+      lookup.set(key, target);
+    }
+  }
+
+  const next: TagsMap = {};
+  const changes: RenameChange[] = [];
+  for (const [relativePath, tags] of Object.entries(tagsMap)) {
+    if (!Array.isArray(tags)) {
+      next[relativePath] = tags;
+      continue;
+    }
+    const matched = tags.some((tag) => lookup.has(normalizeTag(tag).toLowerCase()));
+    if (!matched) {
+      next[relativePath] = tags;
+      continue;
+    }
+    const rewritten = tags.map((tag) => lookup.get(normalizeTag(tag).toLowerCase()) ?? tag);
+    const after = dedupe(rewritten, sortTags);
+    next[relativePath] = after;
+    if (after.length === tags.length && after.every((tag, index) => tag === tags[index])) {
+      continue;
+    }
+    changes.push({ path: relativePath, before: tags, after });
+  }
+  return { tagsMap: next, changes };
+}
@@ -0,0 +1,249 @@
+import fs from 'fs/promises';
+import readline from 'readline';
+import { dedupe, normalizeTag } from './taxonomy';
+import { Logger, MergeResult, PostGenerationState, TagScore } from './types';
+import { writeFileAtomic } from './utils';
+
+export type ReviewStatus = 'pending' | 'accepted' | 'skipped';
+
+export interface ReviewEntry {
+  path: string;
+  /** 已有标签（历史记录与 front-matter） */
+  kept: string[];
+  /** 模型新增的标签 */
+  added: string[];
+  /** 被严格词表拒绝或置信度过低而丢弃的标签 */
+  dropped: string[];
+  /** prune 模式下移除的已有标签 */
+  removed?: string[];
+  /** 模型给出的置信度与理由 */
+  scores?: TagScore[];
+  state: PostGenerationState;
+  status: ReviewStatus;
+  /** 审阅确认后的标签，仅 `accepted` 时存在 */
+  tags?: string[];
+}
+
+export interface ReviewSession {
+  createdAt: string;
+  entries: ReviewEntry[];
+}
+
+export type ReviewOutcome = 'confirmed' | 'saved';
+
+export interface ReviewOptions {
+  sortTags: boolean;
+  target: string;
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+}
+
+type CandidateOrigin = 'kept' | 'added' | 'dropped' | 'removed' | 'edited' | 'new';
+
+interface Candidate {
+  tag: string;
+  origin: CandidateOrigin;
+  selected: boolean;
+  score?: TagScore;
+}
+
+const HELP =
+  'Enter/a=accept  <n> [n...]=toggle tags  e <n> <tag>=edit  + <tag>=add  r=reset  s=skip post  q=save & quit  ?=help';
+
+export function buildReviewEntry(relativePath: string, merge: MergeResult, state: PostGenerationState): ReviewEntry {
+  const added = new Set(merge.added.map((tag) => tag.toLowerCase()));
+  const merged = new Set(merge.tags.map((tag) => tag.toLowerCase()));
+  const entry: ReviewEntry = {
+    path: relativePath,
+    kept: merge.tags.filter((tag) => !added.has(tag.toLowerCase())),
+    added: merge.added,
+    dropped: dedupe([...merge.rejected, ...merge.lowConfidence.filter((tag) => !merged.has(tag.toLowerCase()))], false),
+    state,
+    status: 'pending'
+  };
+  if (merge.removed.length > 0) {
+    entry.removed = merge.removed;
+  }
+  if (merge.scores.length > 0) {
+    entry.scores = merge.scores;
+  }
+  return entry;
+}
+
+export async function readReviewSession(filePath: string, logger: Logger): Promise<ReviewSession | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug(`Review session not found at ${filePath}.`);
+      return null;
+    }
+    throw error;
+  }
+  try {
+    const parsed = JSON.parse(raw) as ReviewSession;
+    if (!parsed || !Array.isArray(parsed.entries)) {
+      throw new Error('missing "entries" array');
+    }
+    return parsed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to parse review session from ${filePath}: ${message}`);
+  }
+}
+
+export async function writeReviewSession(session: ReviewSession, filePath: string, logger: Logger): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(session, null, 2));
+  logger.debug(`Review session written to ${filePath}`);
+}
+
+export async function removeReviewSession(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+}
+
+function initialCandidates(entry: ReviewEntry): Candidate[] {
+  const scores = new Map((entry.scores ?? []).map((score) => [score.tag.toLowerCase(), score]));
+  const candidate = (tag: string, origin: CandidateOrigin, selected: boolean): Candidate => ({
+    tag,
+    origin,
+    selected,
+    score: scores.get(tag.toLowerCase())
+  });
+  return [
+    ...entry.kept.map((tag) => candidate(tag, 'kept', true)),
+    ...entry.added.map((tag) => candidate(tag, 'added', true)),
+    ...entry.dropped.map((tag) => candidate(tag, 'dropped', false)),
+    ...(entry.removed ?? []).map((tag) => candidate(tag, 'removed', false))
+  ];
+}
+
+function describeCandidate(candidate: Candidate): string {
+  const details: string[] = [candidate.origin];
+  const { score } = candidate;
+  if (score?.confidence !== undefined) {
+    details.push(`${score.flagged ? 'low ' : ''}confidence ${score.confidence.toFixed(2)}`);
+  }
+  const reason = score?.reason ? `: ${score.reason}` : '';
+  return `(${details.join(', ')}${reason})`;
+}
+
+function renderEntry(entry: ReviewEntry, candidates: Candidate[], index: number, total: number): string {
+  const width = String(candidates.length).length;
+  const lines = [`\n[${index + 1}/${total}] ${entry.path}`];
+  candidates.forEach((candidate, position) => {
+    const number = String(position + 1).padStart(width);
+    lines.push(`  ${number}. [${candidate.selected ? 'x' : ' '}] ${candidate.tag}  ${describeCandidate(candidate)}`);
+  });
+  if (candidates.length === 0) {
+    lines.push('  (no tags)');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 在终端中逐篇审阅模型生成的标签。逐行读取命令，因此既支持交互终端，也支持管道输入。
+ * 审阅结果直接写回 `session.entries`；返回 `saved` 表示中途退出或未确认写入。
+ */
+export async function reviewSession(session: ReviewSession, options: ReviewOptions): Promise<ReviewOutcome> {
+  const { output } = options;
+  const rl = readline.createInterface({ input: options.input, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  const ask = async (prompt: string): Promise<string | null> => {
+    output.write(prompt);
+    const next = await lines.next();
+    return next.done ? null : next.value;
+  };
+
+  try {
+    const total = session.entries.length;
+    const pending = session.entries.filter((entry) => entry.status === 'pending').length;
+    output.write(`Reviewing ${pending} of ${total} posts. ${HELP}\n`);
+
+    for (const [index, entry] of session.entries.entries()) {
+      if (entry.status !== 'pending') continue;
+      let candidates = initialCandidates(entry);
+      let decided = false;
+      output.write(`${renderEntry(entry, candidates, index, total)}\n`);
+
+      while (!decided) {
+        const answer = await ask('> ');
+        // 输入结束（Ctrl+D 或管道耗尽）视为保存退出
+        if (answer === null) return 'saved';
+        const command = answer.trim();
+        let edit: RegExpMatchArray | null;
+        let addition: RegExpMatchArray | null;
+
+        if (command === '' || command === 'a') {
+          const tags = dedupe(
+            candidates.filter((candidate) => candidate.selected).map((candidate) => candidate.tag),
+            options.sortTags
+          );
+          if (tags.length === 0) {
+            output.write('No tags selected; select at least one tag or press s to skip this post.\n');
+            continue;
+          }
+          entry.status = 'accepted';
+          entry.tags = tags;
+          const selected = new Set(tags.map((tag) => tag.toLowerCase()));
+          const scores = candidates.flatMap((candidate) =>
+            candidate.score && candidate.selected && selected.has(candidate.tag.toLowerCase()) ? [candidate.score] : []
+          );
+          if (scores.length > 0) {
+            entry.scores = scores;
+          } else {
+            delete entry.scores;
+          }
+          decided = true;
+        } else if (command === 's') {
+          entry.status = 'skipped';
+          delete entry.tags;
+          decided = true;
+        } else if (command === 'q') {
+          return 'saved';
+        } else if (command === '?' || command === 'h') {
+          output.write(`${HELP}\n`);
+        } else if (command === 'r') {
+          candidates = initialCandidates(entry);
+          output.write(`${renderEntry(entry, candidates, index, total)}\n`);
+        } else if (/^\d+([\s,]+\d+)*$/.test(command)) {
+          for (const part of command.split(/[\s,]+/)) {
+            const candidate = candidates[Number(part) - 1];
+            if (candidate) {
+              candidate.selected = !candidate.selected;
+            } else {
+              output.write(`No tag numbered ${part}.\n`);
+            }
+          }
+          output.write(`${renderEntry(entry, candidates, index, total)}\n`);
+        } else if ((edit = command.match(/^e\s+(\d+)\s+(.+)$/))) {
+          const candidate = candidates[Number(edit[1]) - 1];
+          const tag = normalizeTag(edit[2]);
+          if (!candidate || !tag) {
+            output.write(`Cannot edit tag ${edit[1]}.\n`);
+            continue;
+          }
+          candidates[Number(edit[1]) - 1] = { tag, origin: 'edited', selected: true };
+          output.write(`${renderEntry(entry, candidates, index, total)}\n`);
+        } else if ((addition = command.match(/^\+\s*(.+)$/))) {
+          const tag = normalizeTag(addition[1]);
+          if (tag) {
+            candidates.push({ tag, origin: 'new', selected: true });
+          }
+          output.write(`${renderEntry(entry, candidates, index, total)}\n`);
+        } else {
+          output.write(`Unknown command "${command}". ${HELP}\n`);
+        }
+      }
+    }
+
+    const accepted = session.entries.filter((entry) => entry.status === 'accepted').length;
+    const skipped = session.entries.filter((entry) => entry.status === 'skipped').length;
+    const answer = await ask(
+      `\nAccepted ${accepted}, skipped ${skipped}. Write ${accepted} post${accepted === 1 ? '' : 's'} to ${options.target}? [y/N] `
+    );
+    return answer !== null && /^y(es)?$/i.test(answer.trim()) ? 'confirmed' : 'saved';
+  } finally {
+    rl.close();
+  }
+}
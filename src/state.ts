@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { LoadedPost, Logger, PostGenerationState, SyncState, TagSyncConfig } from './types';
+import { writeFileAtomic } from './utils';
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * 读取状态文件。文件不存在时返回空对象；内容损坏时直接报错，
+ * 否则 `--changed` 会把所有文章都视为已变更并全量重新生成。
+ */
+export async function readStateFile(filePath: string, logger: Logger): Promise<SyncState> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug?.(`Existing state file not found at ${filePath}.`);
+      return {};
+    }
+    throw error;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tag Sync: Failed to parse state file at ${filePath}: ${message}. Fix or remove the file before running again.`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Tag Sync: ${filePath} must be an object of post path -> generation state.`);
+  }
+  return parsed as SyncState;
+}
+
+export async function writeStateFile(state: SyncState, config: TagSyncConfig, logger: Logger): Promise<void> {
+  const sorted = Object.fromEntries(Object.entries(state).sort((a, b) => a[0].localeCompare(b[0], 'en-US')));
+  await writeFileAtomic(config.stateJsonPath, JSON.stringify(sorted, null, 2));
+  logger.debug(`State written to ${config.stateJsonPath}`);
+}
+
+/**
+ * 记录到状态文件中的 prompt 版本：模板版本加上会改变 prompt 内容的输出设置（响应格式、评分、prune），
+ * 使用默认设置时与模板版本相同。
+ */
+export function resolvePromptVersion(
+  config: Pick<TagSyncConfig, 'promptTemplate' | 'responseFormat' | 'tagScores' | 'prune'>
+): string {
+  const settings = [
+    config.responseFormat !== 'text' ? config.responseFormat : null,
+    config.tagScores ? 'scores' : null,
+    config.prune ? 'prune' : null
+  ].filter(Boolean);
+  return [config.promptTemplate.version, ...settings].join('+');
+}
+
+export function buildPostState(post: LoadedPost, model: string, promptVersion: string): PostGenerationState {
+  return {
+    contentHash: hashContent(post.content),
+    model,
+    promptVersion,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * 返回文章需要重新生成的原因；无需重新生成时返回 null。
+ */
+export function detectChange(post: LoadedPost, previous: PostGenerationState | undefined, promptVersion: string): string | null {
+  if (!previous) return 'no recorded state';
+  if (previous.contentHash !== hashContent(post.content)) return 'content changed';
+  if (previous.promptVersion !== promptVersion) {
+    return `prompt version ${previous.promptVersion} -> ${promptVersion}`;
+  }
+  return null;
+}
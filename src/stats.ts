@@ -0,0 +1,221 @@
+import { classifyTags, countTagUsage, resolveAlias } from './taxonomy';
+import { LoadedPost, TagScoresMap, TagsMap, TagSyncConfig, TagUsage } from './types';
+
+export type StatsFormat = 'table' | 'json' | 'csv';
+
+export interface StatsOptions {
+  minTags: number;
+  maxTags: number;
+}
+
+export interface TagFrequency extends TagUsage {
+  category: string;
+  /** 评分旁路文件中该标签的平均置信度 */
+  confidence?: number;
+  /** 低于阈值但被保留的次数 */
+  flagged?: number;
+}
+
+export interface PostTagCount {
+  path: string;
+  count: number;
+  source: 'tags.json' | 'front-matter';
+}
+
+export interface CategoryBreakdown {
+  category: string;
+  tags: number;
+  usages: number;
+  posts: number;
+}
+
+export interface TagStatsReport {
+  totalPosts: number;
+  trackedPosts: number;
+  totalTags: number;
+  frequency: TagFrequency[];
+  orphanTags: Array<{ tag: string; path: string }>;
+  underTagged: PostTagCount[];
+  overTagged: PostTagCount[];
+  categories: CategoryBreakdown[];
+}
+
+export function buildTagStats(
+  posts: LoadedPost[],
+  tagsMap: TagsMap,
+  config: Pick<TagSyncConfig, 'taxonomyRules' | 'tagAliases'>,
+  options: StatsOptions,
+  scores: TagScoresMap = {}
+): TagStatsReport {
+  // 以 tags.json 为准，缺失记录的文章回退到 front-matter 标签
+  const effective: TagsMap = {};
+  const sources = new Map<string, PostTagCount['source']>();
+  for (const post of posts) {
+    const tracked = tagsMap[post.relativePath];
+    effective[post.relativePath] = Array.isArray(tracked) ? tracked : post.frontMatterTags;
+    sources.set(post.relativePath, Array.isArray(tracked) ? 'tags.json' : 'front-matter');
+  }
+
+  const usage = countTagUsage(effective, config.tagAliases);
+  const classification = classifyTags(
+    usage.map((entry) => entry.tag),
+    config.taxonomyRules
+  );
+  const confidence = new Map<string, { sum: number; count: number; flagged: number }>();
+  for (const [relativePath, entries] of Object.entries(scores)) {
+    if (!(relativePath in effective)) continue;
+    for (const score of entries) {
+      if (score.confidence === undefined) continue;
+      const key = resolveAlias(score.tag, config.tagAliases).toLowerCase();
+      const bucket = confidence.get(key) ?? { sum: 0, count: 0, flagged: 0 };
+      bucket.sum += score.confidence;
+      bucket.count += 1;
+      bucket.flagged += score.flagged ? 1 : 0;
+      confidence.set(key, bucket);
+    }
+  }
+  const frequency: TagFrequency[] = usage.map((entry) => {
+    const frequencyEntry: TagFrequency = { ...entry, category: classification[entry.tag] ?? 'uncategorized' };
+    const bucket = confidence.get(entry.tag.toLowerCase());
+    if (bucket) {
+      frequencyEntry.confidence = Math.round((bucket.sum / bucket.count) * 100) / 100;
+      if (bucket.flagged > 0) frequencyEntry.flagged = bucket.flagged;
+    }
+    return frequencyEntry;
+  });
+
+  const postsByTag = new Map<string, string[]>();
+  const postCounts: PostTagCount[] = [];
+  for (const [relativePath, tags] of Object.entries(effective)) {
+    const resolved = new Set(tags.map((tag) => resolveAlias(tag, config.tagAliases).toLowerCase()).filter(Boolean));
+    for (const key of resolved) {
+      const list = postsByTag.get(key) ?? [];
+      list.push(relativePath);
+      postsByTag.set(key, list);
+    }
+    postCounts.push({ path: relativePath, count: resolved.size, source: sources.get(relativePath) ?? 'tags.json' });
+  }
+
+  const orphanTags = frequency
+    .filter((entry) => entry.count === 1)
+    .map((entry) => ({ tag: entry.tag, path: postsByTag.get(entry.tag.toLowerCase())?.[0] ?? '' }));
+
+  const categoryMap = new Map<string, { tags: number; usages: number; posts: Set<string> }>();
+  for (const entry of frequency) {
+    const bucket = categoryMap.get(entry.category) ?? { tags: 0, usages: 0, posts: new Set<string>() };
+    bucket.tags += 1;
+    bucket.usages += entry.count;
+    for (const relativePath of postsByTag.get(entry.tag.toLowerCase()) ?? []) {
+      bucket.posts.add(relativePath);
+    }
+    categoryMap.set(entry.category, bucket);
+  }
+  const categories = Array.from(categoryMap.entries())
+    .map(([category, bucket]) => ({ category, tags: bucket.tags, usages: bucket.usages, posts: bucket.posts.size }))
+    .sort((a, b) => b.usages - a.usages || a.category.localeCompare(b.category, 'zh-CN'));
+
+  const byPath = (a: PostTagCount, b: PostTagCount) => a.path.localeCompare(b.path, 'en-US');
+  return {
+    totalPosts: posts.length,
+    trackedPosts: Array.from(sources.values()).filter((source) => source === 'tags.json').length,
+    totalTags: frequency.length,
+    frequency,
+    orphanTags,
+    underTagged: postCounts.filter((entry) => entry.count < options.minTags).sort(byPath),
+    overTagged: postCounts.filter((entry) => entry.count > options.maxTags).sort(byPath),
+    categories
+  };
+}
+
+export function formatTable(headers: string[], rows: Array<Array<string | number>>): string {
+  const cells = rows.map((row) => row.map((cell) => String(cell)));
+  // CJK 字符在终端中占两列
+  const width = (text: string) => text.replace(/[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/g, '  ').length;
+  const widths = headers.map((header, index) => Math.max(width(header), ...cells.map((row) => width(row[index] ?? ''))));
+  const pad = (text: string, index: number) => `${text}${' '.repeat(widths[index] - width(text))}`;
+  const lines = [
+    headers.map(pad).join('  '),
+    widths.map((size) => '-'.repeat(size)).join('  '),
+    ...cells.map((row) => row.map(pad).join('  '))
+  ];
+  return lines.map((line) => line.trimEnd()).join('\n');
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderFrequency(frequency: TagFrequency[]): string {
+  // 仅在存在评分数据时展示置信度列
+  if (!frequency.some((entry) => entry.confidence !== undefined)) {
+    return formatTable(
+      ['Tag', 'Posts', 'Category'],
+      frequency.map((entry) => [entry.tag, entry.count, entry.category])
+    );
+  }
+  return formatTable(
+    ['Tag', 'Posts', 'Category', 'Confidence'],
+    frequency.map((entry) => [
+      entry.tag,
+      entry.count,
+      entry.category,
+      entry.confidence === undefined ? '-' : `${entry.confidence.toFixed(2)}${entry.flagged ? ` (${entry.flagged} low)` : ''}`
+    ])
+  );
+}
+
+function renderStatsTable(report: TagStatsReport, options: StatsOptions): string {
+  const sections = [
+    `Posts: ${report.totalPosts} (tracked in tags.json: ${report.trackedPosts}), distinct tags: ${report.totalTags}`,
+    '',
+    'Tag frequency',
+    renderFrequency(report.frequency),
+    '',
+    `Orphan tags (${report.orphanTags.length})`,
+    formatTable(
+      ['Tag', 'Post'],
+      report.orphanTags.map((entry) => [entry.tag, entry.path])
+    ),
+    '',
+    `Posts with fewer than ${options.minTags} tags (${report.underTagged.length})`,
+    formatTable(
+      ['Post', 'Tags', 'Source'],
+      report.underTagged.map((entry) => [entry.path, entry.count, entry.source])
+    ),
+    '',
+    `Posts with more than ${options.maxTags} tags (${report.overTagged.length})`,
+    formatTable(
+      ['Post', 'Tags', 'Source'],
+      report.overTagged.map((entry) => [entry.path, entry.count, entry.source])
+    ),
+    '',
+    'Categories',
+    formatTable(
+      ['Category', 'Tags', 'Usages', 'Posts'],
+      report.categories.map((entry) => [entry.category, entry.tags, entry.usages, entry.posts])
+    )
+  ];
+  return sections.join('\n');
+}
+
+function renderStatsCsv(report: TagStatsReport): string {
+  const rows: Array<Array<string | number>> = [['section', 'name', 'count', 'detail']];
+  for (const entry of report.frequency) rows.push(['tag', entry.tag, entry.count, entry.category]);
+  for (const entry of report.orphanTags) rows.push(['orphan', entry.tag, 1, entry.path]);
+  for (const entry of report.underTagged) rows.push(['under_tagged', entry.path, entry.count, entry.source]);
+  for (const entry of report.overTagged) rows.push(['over_tagged', entry.path, entry.count, entry.source]);
+  for (const entry of report.categories) rows.push(['category', entry.category, entry.usages, `tags=${entry.tags};posts=${entry.posts}`]);
+  return rows.map((row) => row.map(escapeCsv).join(',')).join('\n');
+}
+
+export function renderStats(report: TagStatsReport, format: StatsFormat, options: StatsOptions): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'csv':
+      return renderStatsCsv(report);
+    default:
+      return renderStatsTable(report, options);
+  }
+}
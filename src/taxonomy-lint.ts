@@ -0,0 +1,188 @@
+import { CATEGORY_PATH_SEPARATOR, classifyTagPaths, matchesRule, sortRules, UNCATEGORIZED } from './taxonomy';
+import { TaxonomyRule, TaxonomyRules } from './types';
+
+export type LintLevel = 'error' | 'warning';
+
+export type LintCode = 'invalid-json' | 'schema' | 'invalid-pattern' | 'overlap' | 'unused-rule' | 'uncategorized';
+
+export interface LintFinding {
+  level: LintLevel;
+  code: LintCode;
+  rule: string;
+  message: string;
+  tags?: string[];
+}
+
+export interface TaxonomyLintReport {
+  findings: LintFinding[];
+  errors: number;
+  warnings: number;
+  checkedTags: number;
+}
+
+const KNOWN_RULE_KEYS = new Set(['includes', 'pattern', 'priority', 'children']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateRules(value: unknown, parentPath: string[], findings: LintFinding[]): void {
+  const where = parentPath.length ? parentPath.join(CATEGORY_PATH_SEPARATOR) : '(root)';
+  if (!isPlainObject(value)) {
+    findings.push({ level: 'error', code: 'schema', rule: where, message: 'Expected an object of category -> rule.' });
+    return;
+  }
+  for (const [category, rule] of Object.entries(value)) {
+    const rulePath = [...parentPath, category];
+    const name = rulePath.join(CATEGORY_PATH_SEPARATOR);
+    if (!category.trim()) {
+      findings.push({ level: 'error', code: 'schema', rule: where, message: 'Category names must not be empty.' });
+    }
+    if (category === UNCATEGORIZED) {
+      findings.push({ level: 'warning', code: 'schema', rule: name, message: `"${UNCATEGORIZED}" is reserved for unmatched tags.` });
+    }
+    if (!isPlainObject(rule)) {
+      findings.push({ level: 'error', code: 'schema', rule: name, message: 'Rule must be an object.' });
+      continue;
+    }
+    for (const key of Object.keys(rule)) {
+      if (!KNOWN_RULE_KEYS.has(key)) {
+        findings.push({ level: 'warning', code: 'schema', rule: name, message: `Unknown key "${key}".` });
+      }
+    }
+    const { includes, pattern, priority, children } = rule as Record<string, unknown>;
+    if (includes !== undefined && (!Array.isArray(includes) || includes.some((item) => typeof item !== 'string'))) {
+      findings.push({ level: 'error', code: 'schema', rule: name, message: '"includes" must be an array of strings.' });
+    }
+    if (pattern !== undefined) {
+      if (typeof pattern !== 'string') {
+        findings.push({ level: 'error', code: 'schema', rule: name, message: '"pattern" must be a string.' });
+      } else {
+        try {
+          new RegExp(pattern, 'i');
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          findings.push({ level: 'error', code: 'invalid-pattern', rule: name, message });
+        }
+      }
+    }
+    if (priority !== undefined && (typeof priority !== 'number' || !Number.isFinite(priority))) {
+      findings.push({ level: 'error', code: 'schema', rule: name, message: '"priority" must be a finite number.' });
+    }
+    if (includes === undefined && pattern === undefined && children === undefined) {
+      findings.push({ level: 'warning', code: 'schema', rule: name, message: 'Rule has no includes, pattern or children.' });
+    }
+    if (children !== undefined) {
+      validateRules(children, rulePath, findings);
+    }
+  }
+}
+
+function collectRules(rules: TaxonomyRules, parentPath: string[] = []): Array<{ path: string[]; rule: TaxonomyRule }> {
+  const collected: Array<{ path: string[]; rule: TaxonomyRule }> = [];
+  for (const [category, rule] of sortRules(rules)) {
+    const rulePath = [...parentPath, category];
+    collected.push({ path: rulePath, rule });
+    if (isPlainObject(rule.children)) {
+      collected.push(...collectRules(rule.children, rulePath));
+    }
+  }
+  return collected;
+}
+
+function isAncestor(ancestor: string[], path: string[]): boolean {
+  return ancestor.length < path.length && ancestor.every((segment, index) => segment === path[index]);
+}
+
+/**
+ * 检查分类规则：结构与正则合法性（error），以及基于 tags.json 中全部标签的规则重叠、未命中规则与未分类标签（warning）。
+ */
+export function lintTaxonomy(rawRules: unknown, tags: string[]): TaxonomyLintReport {
+  const findings: LintFinding[] = [];
+  validateRules(rawRules, [], findings);
+
+  // 结构错误时不再做基于标签的检查，避免在非法规则上产生误报
+  if (!findings.some((finding) => finding.level === 'error')) {
+    const rules = rawRules as TaxonomyRules;
+    const entries = collectRules(rules);
+    const used = new Set<string>();
+
+    for (const tag of tags) {
+      const matched = entries.filter(({ rule }) => matchesRule(tag, rule)).map(({ path }) => path);
+      for (const path of matched) {
+        used.add(path.join(CATEGORY_PATH_SEPARATOR));
+      }
+      const independent = matched.filter((path) => !matched.some((other) => isAncestor(path, other)));
+      if (independent.length > 1) {
+        const winner = classifyTagPaths([tag], rules)[tag].join(CATEGORY_PATH_SEPARATOR);
+        const names = independent.map((path) => path.join(CATEGORY_PATH_SEPARATOR));
+        findings.push({
+          level: 'warning',
+          code: 'overlap',
+          rule: names.join(', '),
+          message: `Tag "${tag}" matches ${independent.length} categories (${names.join(', ')}); "${winner}" wins.`,
+          tags: [tag]
+        });
+      }
+    }
+
+    for (const { path, rule } of entries) {
+      const hasMatcher = (rule.includes?.length ?? 0) > 0 || Boolean(rule.pattern);
+      const name = path.join(CATEGORY_PATH_SEPARATOR);
+      if (hasMatcher && !used.has(name)) {
+        findings.push({ level: 'warning', code: 'unused-rule', rule: name, message: 'Rule matches no tag in tags.json.' });
+      }
+    }
+
+    const classification = classifyTagPaths(tags, rules);
+    const uncategorized = tags.filter((tag) => classification[tag][0] === UNCATEGORIZED);
+    if (uncategorized.length > 0) {
+      findings.push({
+        level: 'warning',
+        code: 'uncategorized',
+        rule: UNCATEGORIZED,
+        message: `${uncategorized.length} tag${uncategorized.length === 1 ? '' : 's'} match no category.`,
+        tags: uncategorized
+      });
+    }
+  }
+
+  return {
+    findings,
+    errors: findings.filter((finding) => finding.level === 'error').length,
+    warnings: findings.filter((finding) => finding.level === 'warning').length,
+    checkedTags: tags.length
+  };
+}
+
+/**
+ * 检查分类规则文件的原始内容：JSON 语法错误同样作为 error 报告，而不是直接抛出异常。
+ */
+export function lintTaxonomyFile(raw: string, tags: string[]): TaxonomyLintReport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      findings: [{ level: 'error', code: 'invalid-json', rule: '(root)', message }],
+      errors: 1,
+      warnings: 0,
+      checkedTags: tags.length
+    };
+  }
+  return lintTaxonomy(parsed, tags);
+}
+
+export function renderLintReport(report: TaxonomyLintReport, source: string): string {
+  const lines = report.findings.map((finding) => {
+    const suffix = finding.code === 'uncategorized' && finding.tags ? `: ${finding.tags.join(', ')}` : '';
+    return `${finding.level.toUpperCase().padEnd(7)} ${finding.code.padEnd(15)} ${finding.rule}  ${finding.message}${suffix}`;
+  });
+  lines.push(
+    `${source}: ${report.errors} error${report.errors === 1 ? '' : 's'}, ${report.warnings} warning${
+      report.warnings === 1 ? '' : 's'
+    } (checked ${report.checkedTags} tags).`
+  );
+  return lines.join('\n');
+}
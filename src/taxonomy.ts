@@ -1,4 +1,19 @@
-import { MergeResult, TagSyncConfig, TaxonomyRules } from './types';
+import {
+  AliasRewrite,
+  CategoriesMode,
+  CategoryPath,
+  MergeResult,
+  TagAliasDefinitions,
+  TagAliasLookup,
+  TagScore,
+  TagsMap,
+  TagSyncConfig,
+  TagUsage,
+  TaxonomyRule,
+  TaxonomyRules
+} from './types';
+import { estimateTokens } from './tokens';
+import { hasOwn } from './utils';
 
 export function normalizeTag(tag: string | undefined | null): string {
   if (!tag) return '';
@@ -8,7 +23,46 @@ export function normalizeTag(tag: string | undefined | null): string {
     .trim();
 }
 
-function dedupe(tags: string[], sort = false): string[] {
+function aliasKey(tag: string): string {
+  return normalizeTag(tag).toLowerCase();
+}
+
+export function buildAliasLookup(definitions: TagAliasDefinitions): TagAliasLookup {
+  const lookup: TagAliasLookup = Object.create(null);
+  for (const [rawCanonical, rawVariants] of Object.entries(definitions)) {
+    const canonical = normalizeTag(rawCanonical);
+    if (!canonical) continue;
+    const variants = Array.isArray(rawVariants) ? rawVariants : [rawVariants];
+    for (const variant of [canonical, ...variants]) {
+      const key = aliasKey(String(variant ?? ''));
+      // 先声明者优先，避免同一别名被多个规范标签抢占
+      if (key && !hasOwn(lookup, key)) {
+        lookup[key] = canonical;
+      }
+    }
+  }
+  return lookup;
+}
+
+export function resolveAlias(tag: string, aliases: TagAliasLookup): string {
+  const normalized = normalizeTag(tag);
+  if (!normalized) return '';
+  const key = normalized.toLowerCase();
+  return hasOwn(aliases, key) ? aliases[key] : normalized;
+}
+
+function applyAliases(tags: string[], aliases: TagAliasLookup, rewrites: Map<string, AliasRewrite>): string[] {
+  return tags.map((tag) => {
+    const normalized = normalizeTag(tag);
+    const resolved = resolveAlias(normalized, aliases);
+    if (resolved && resolved !== normalized && !rewrites.has(normalized)) {
+      rewrites.set(normalized, { from: normalized, to: resolved });
+    }
+    return resolved;
+  });
+}
+
+export function dedupe(tags: string[], sort = false): string[] {
   const seen = new Map<string, string>();
   for (const tag of tags) {
     const normalized = normalizeTag(tag);
@@ -25,58 +79,219 @@ function dedupe(tags: string[], sort = false): string[] {
   return values;
 }
 
-function classifyTags(tags: string[], taxonomyRules: TaxonomyRules | null): Record<string, string> {
-  if (!taxonomyRules) {
-    return Object.fromEntries(tags.map((tag) => [tag, 'uncategorized']));
+export const UNCATEGORIZED = 'uncategorized';
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+export function matchesRule(tag: string, rule: TaxonomyRule): boolean {
+  const includes = rule.includes ?? [];
+  if (includes.some((candidate) => normalizeTag(candidate).toLowerCase() === normalizeTag(tag).toLowerCase())) {
+    return true;
+  }
+  if (rule.pattern) {
+    try {
+      return new RegExp(rule.pattern, 'i').test(tag);
+    } catch {
+      // ignore invalid regex
+    }
   }
+  return false;
+}
+
+// 同级规则按 priority 降序，priority 相同时保持声明顺序
+export function sortRules(rules: TaxonomyRules): Array<[string, TaxonomyRule]> {
+  return Object.entries(rules)
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => (b.entry[1].priority ?? 0) - (a.entry[1].priority ?? 0) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
 
-  const classification: Record<string, string> = {};
+function findCategoryPath(tag: string, rules: TaxonomyRules): string[] | null {
+  for (const [category, rule] of sortRules(rules)) {
+    // 子分类更具体，优先于父分类自身的规则
+    const childPath = rule.children ? findCategoryPath(tag, rule.children) : null;
+    if (childPath) return [category, ...childPath];
+    if (matchesRule(tag, rule)) return [category];
+  }
+  return null;
+}
+
+export function classifyTagPaths(tags: string[], taxonomyRules: TaxonomyRules | null): Record<string, CategoryPath> {
+  const classification: Record<string, CategoryPath> = {};
   for (const tag of tags) {
-    let assigned = false;
-    for (const [category, rule] of Object.entries(taxonomyRules)) {
-      const includes = rule.includes ?? [];
-      const pattern = rule.pattern;
-      if (includes.some((candidate) => normalizeTag(candidate).toLowerCase() === normalizeTag(tag).toLowerCase())) {
-        classification[tag] = category;
-        assigned = true;
-        break;
-      }
-      if (pattern) {
-        try {
-          const regex = new RegExp(pattern, 'i');
-          if (regex.test(tag)) {
-            classification[tag] = category;
-            assigned = true;
-            break;
-          }
-        } catch {
-          // ignore invalid regex
-        }
-      }
+    classification[tag] = (taxonomyRules && findCategoryPath(tag, taxonomyRules)) || [UNCATEGORIZED];
+  }
+  return classification;
+}
+
+export function classifyTags(tags: string[], taxonomyRules: TaxonomyRules | null): Record<string, string> {
+  const paths = classifyTagPaths(tags, taxonomyRules);
+  return Object.fromEntries(Object.entries(paths).map(([tag, path]) => [tag, path.join(CATEGORY_PATH_SEPARATOR)]));
+}
+
+/**
+ * 根据文章标签推导 Hexo 分类路径：`primary` 仅保留命中标签最多的路径，`all` 保留全部路径。
+ */
+export function resolvePostCategories(
+  tags: string[],
+  taxonomyRules: TaxonomyRules | null,
+  mode: Exclude<CategoriesMode, 'off'>
+): CategoryPath[] {
+  const counts = new Map<string, { path: CategoryPath; count: number }>();
+  for (const path of Object.values(classifyTagPaths(tags, taxonomyRules))) {
+    if (path.length === 1 && path[0] === UNCATEGORIZED) continue;
+    const key = path.join(CATEGORY_PATH_SEPARATOR);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      counts.set(key, { path, count: 1 });
     }
-    if (!assigned) {
-      classification[tag] = 'uncategorized';
+  }
+  const entries = Array.from(counts.values());
+  if (mode === 'all') {
+    return entries.map((entry) => entry.path);
+  }
+  const primary = entries.reduce<{ path: CategoryPath; count: number } | null>(
+    (best, entry) => (!best || entry.count > best.count ? entry : best),
+    null
+  );
+  return primary ? [primary.path] : [];
+}
+
+export function countTagUsage(tagsMap: TagsMap, aliases: TagAliasLookup = {}): TagUsage[] {
+  const counts = new Map<string, TagUsage>();
+  for (const tags of Object.values(tagsMap)) {
+    if (!Array.isArray(tags)) continue;
+    const unique = dedupe(tags.map((tag) => resolveAlias(tag, aliases)), false);
+    for (const tag of unique) {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        counts.set(key, { tag, count: 1 });
+      }
     }
   }
-  return classification;
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, 'zh-CN'));
+}
+
+export function limitVocabulary(usage: TagUsage[], tokenBudget: number): string[] {
+  const selected: string[] = [];
+  let spent = 0;
+  for (const { tag } of usage) {
+    // 每个标签额外计入分隔符 ", " 的开销
+    const cost = estimateTokens(tag) + 1;
+    if (spent + cost > tokenBudget) break;
+    selected.push(tag);
+    spent += cost;
+  }
+  return selected;
+}
+
+/** 模型在标签之外给出的附加信息 */
+export interface MergeSuggestions {
+  scores?: TagScore[];
+  /** prune 模式下建议移除的已有标签 */
+  remove?: string[];
 }
 
 export function mergeTags(
   fromSource: string[],
   recommended: string[],
   historical: string[] | undefined,
-  config: Pick<TagSyncConfig, 'sortTags' | 'taxonomyRules'>
+  config: Pick<TagSyncConfig, 'sortTags' | 'taxonomyRules' | 'tagAliases'> &
+    Partial<
+      Pick<
+        TagSyncConfig,
+        'strictVocabulary' | 'allowNewTags' | 'minConfidence' | 'lowConfidence' | 'prune' | 'maxTags' | 'minKeptTags'
+      >
+    >,
+  vocabulary: string[] = [],
+  suggestions: MergeSuggestions = {}
 ): MergeResult {
-  const historyPart = historical ? dedupe(historical, false) : [];
-  const sourcePart = dedupe(fromSource, false);
-  const ordered = [...historyPart, ...sourcePart, ...recommended];
-  const unique = dedupe(ordered, config.sortTags);
+  const aliases = config.tagAliases ?? {};
+  const rewrites = new Map<string, AliasRewrite>();
+  const historyPart = historical ? dedupe(applyAliases(historical, aliases, rewrites), false) : [];
+  const sourcePart = dedupe(applyAliases(fromSource, aliases, rewrites), false);
   const existingSet = new Set([...historyPart, ...sourcePart].map((tag) => normalizeTag(tag).toLowerCase()));
+  const rejected: string[] = [];
+  let recommendedPart = applyAliases(recommended, aliases, rewrites);
+  if (config.strictVocabulary && !config.allowNewTags) {
+    // 严格模式：模型推荐的标签必须来自全站词表或本篇已有标签
+    const allowed = new Set([...vocabulary.map((tag) => aliasKey(tag)), ...existingSet]);
+    recommendedPart = recommendedPart.filter((tag) => {
+      if (!tag || allowed.has(tag.toLowerCase())) return true;
+      rejected.push(tag);
+      return false;
+    });
+  }
+  // 评分以别名改写后的标签为键；已有标签不受置信度阈值影响
+  const scoreLookup = new Map<string, TagScore>();
+  for (const score of suggestions.scores ?? []) {
+    const resolved = resolveAlias(score.tag, aliases);
+    if (resolved && !scoreLookup.has(resolved.toLowerCase())) {
+      scoreLookup.set(resolved.toLowerCase(), { ...score, tag: resolved });
+    }
+  }
+  const lowConfidence: string[] = [];
+  const threshold = config.minConfidence ?? 0;
+  recommendedPart = recommendedPart.filter((tag) => {
+    const score = scoreLookup.get(tag.toLowerCase());
+    if (!tag || !score || score.confidence === undefined || score.confidence >= threshold) return true;
+    if (existingSet.has(tag.toLowerCase())) return true;
+    lowConfidence.push(tag);
+    if (config.lowConfidence === 'flag') {
+      score.flagged = true;
+      return true;
+    }
+    return false;
+  });
+
+  // prune 模式：按模型建议移除已有标签，但至少保留 minKeptTags 个
+  const removed: string[] = [];
+  const minKept = config.minKeptTags ?? 1;
+  let existingPart = dedupe([...historyPart, ...sourcePart], false);
+  if (config.prune) {
+    const removeKeys = new Set((suggestions.remove ?? []).map((tag) => resolveAlias(tag, aliases).toLowerCase()));
+    existingPart = existingPart.filter((tag) => {
+      if (!removeKeys.has(tag.toLowerCase()) || existingPart.length - removed.length <= minKept) return true;
+      removed.push(tag);
+      return false;
+    });
+  }
+  const removedSet = new Set(removed.map((tag) => tag.toLowerCase()));
+  const keptSet = new Set(existingPart.map((tag) => tag.toLowerCase()));
+  let newPart = dedupe(recommendedPart, false).filter(
+    (tag) => !keptSet.has(tag.toLowerCase()) && !removedSet.has(tag.toLowerCase())
+  );
+
+  // 标签上限：优先保留已有标签，新标签按模型给出的顺序补足；prune 模式下超出的已有标签从末尾移除
+  const maxTags = config.maxTags ?? 0;
+  if (maxTags > 0) {
+    if (config.prune && existingPart.length > maxTags) {
+      const limit = Math.max(maxTags, minKept);
+      removed.push(...existingPart.slice(limit));
+      existingPart = existingPart.slice(0, limit);
+    }
+    newPart = newPart.slice(0, Math.max(0, maxTags - existingPart.length));
+  }
+
+  const unique = dedupe([...existingPart, ...newPart], config.sortTags);
   const added = unique.filter((tag) => !existingSet.has(normalizeTag(tag).toLowerCase()));
   const classification = classifyTags(unique, config.taxonomyRules);
   return {
     tags: unique,
     added,
+    aliased: Array.from(rewrites.values()),
+    rejected: dedupe(rejected, false),
+    removed,
+    lowConfidence: dedupe(lowConfidence, false),
+    scores: unique.flatMap((tag) => {
+      const score = scoreLookup.get(tag.toLowerCase());
+      return score ? [{ ...score, tag }] : [];
+    }),
     classification
   };
 }
@@ -0,0 +1,139 @@
+import { LoadedPost } from './types';
+
+interface TokenProfile {
+  /** 每个 CJK 字符约折算的 token 数 */
+  cjkTokensPerChar: number;
+  /** 非 CJK 文本平均每个 token 对应的字符数 */
+  charsPerToken: number;
+  contextWindow: number;
+}
+
+const DEFAULT_PROFILE: TokenProfile = { cjkTokensPerChar: 1, charsPerToken: 4, contextWindow: 8192 };
+
+// 按模型名前缀匹配，越具体的前缀越靠前
+const MODEL_PROFILES: Array<[RegExp, TokenProfile]> = [
+  [/^(gpt-4o|gpt-4\.1|o1|o3|o4|chatgpt-4o)/i, { cjkTokensPerChar: 0.8, charsPerToken: 4, contextWindow: 128000 }],
+  [/^gpt-4-turbo/i, { cjkTokensPerChar: 1, charsPerToken: 4, contextWindow: 128000 }],
+  [/^gpt-4/i, { cjkTokensPerChar: 1, charsPerToken: 4, contextWindow: 8192 }],
+  [/^gpt-3\.5/i, { cjkTokensPerChar: 1, charsPerToken: 4, contextWindow: 16385 }],
+  [/^claude/i, { cjkTokensPerChar: 1.2, charsPerToken: 3.5, contextWindow: 200000 }],
+  [/^(qwen|qwq)/i, { cjkTokensPerChar: 0.7, charsPerToken: 4, contextWindow: 32768 }],
+  [/^deepseek/i, { cjkTokensPerChar: 0.7, charsPerToken: 4, contextWindow: 65536 }],
+  [/^(glm-4|chatglm)/i, { cjkTokensPerChar: 0.7, charsPerToken: 4, contextWindow: 128000 }],
+  [/^(moonshot|kimi)/i, { cjkTokensPerChar: 0.7, charsPerToken: 4, contextWindow: 128000 }]
+];
+
+// 为标签要求、历史标签、词表与模型输出预留的 token
+const PROMPT_RESERVE_TOKENS = 4096;
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
+
+function resolveProfile(model?: string): TokenProfile {
+  if (!model) return DEFAULT_PROFILE;
+  const name = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+  return MODEL_PROFILES.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_PROFILE;
+}
+
+/**
+ * 粗略估算文本的 token 数，按模型区分 CJK 字符与其余字符的折算比例。
+ */
+export function estimateTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  const profile = resolveProfile(model);
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  const rest = text.length - cjk;
+  return Math.ceil(cjk * profile.cjkTokensPerChar + rest / profile.charsPerToken);
+}
+
+export function defaultContentBudget(model: string): number {
+  return Math.max(1024, resolveProfile(model).contextWindow - PROMPT_RESERVE_TOKENS);
+}
+
+/**
+ * 截取不超过预算的前缀；按估算比例反推长度后逐步收缩，避免逐字计算。
+ */
+export function truncateToTokens(text: string, budget: number, model?: string): string {
+  let total = estimateTokens(text, model);
+  if (total <= budget) return text;
+  let length = Math.floor((text.length * budget) / total);
+  let candidate = text.slice(0, length);
+  while (length > 0 && (total = estimateTokens(candidate, model)) > budget) {
+    length = Math.floor((length * budget) / total) - 1;
+    candidate = text.slice(0, Math.max(0, length));
+  }
+  return candidate;
+}
+
+/**
+ * 按段落切分正文，使每段不超过预算；代码块不会被拆到两段中间（除非单个代码块本身超出预算）。
+ */
+export function splitIntoChunks(content: string, budget: number, model?: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && line.trim() === '' && current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+
+  const chunks: string[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer.trim()) chunks.push(buffer);
+    buffer = '';
+  };
+  for (let block of blocks) {
+    const candidate = buffer ? `${buffer}\n\n${block}` : block;
+    if (estimateTokens(candidate, model) <= budget) {
+      buffer = candidate;
+      continue;
+    }
+    flush();
+    while (estimateTokens(block, model) > budget) {
+      const head = truncateToTokens(block, budget, model);
+      if (!head) break;
+      chunks.push(head);
+      block = block.slice(head.length);
+    }
+    buffer = block;
+  }
+  flush();
+  return chunks;
+}
+
+export function extractHeadings(content: string): string[] {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (!inFence && /^#{1,6}\s+\S/.test(line)) {
+      headings.push(line.trim());
+    }
+  }
+  return headings;
+}
+
+/**
+ * 将长文压缩为「标题大纲 + 摘要」，并截断到预算内。
+ */
+export function buildOutline(post: LoadedPost, budget: number, model?: string): string {
+  const headings = extractHeadings(post.content);
+  const sections = [
+    headings.length ? `文章大纲：\n${headings.join('\n')}` : '',
+    post.excerpt ? `摘要：\n${post.excerpt}` : ''
+  ].filter(Boolean);
+  return truncateToTokens(sections.join('\n\n'), budget, model);
+}
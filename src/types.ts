@@ -1,10 +1,53 @@
 export interface TaxonomyRule {
   includes?: string[];
   pattern?: string;
+  /** 同级规则中数值越大越先匹配，默认 0 */
+  priority?: number;
+  children?: TaxonomyRules;
 }
 
 export type TaxonomyRules = Record<string, TaxonomyRule>;
 
+/** 从顶级分类到最具体分类的路径，例如 ["编程语言", "Rust"] */
+export type CategoryPath = string[];
+
+export type CategoriesMap = Record<string, CategoryPath[]>;
+
+export type CategoriesMode = 'off' | 'primary' | 'all';
+
+/** Canonical tag mapped to the variant spellings that should be rewritten to it. */
+export type TagAliasDefinitions = Record<string, string[] | string>;
+
+/** Lower-cased normalized variant mapped to its canonical tag. */
+export type TagAliasLookup = Record<string, string>;
+
+export type ResponseFormatMode = 'text' | 'json_object' | 'json_schema' | 'tool';
+
+export type ProviderName = 'openai' | 'anthropic' | 'ollama';
+
+/** 标签生成使用的 prompt 模板，`{{name}}` 占位符在请求时替换 */
+export interface PromptTemplate {
+  /** 写入 `TAG_SYNC_STATE_JSON` 的版本号，变化后 `--changed` 会重新生成标签 */
+  version: string;
+  system: string;
+  user: string;
+  /** 长文分段（chunk 策略）时单段使用的模板 */
+  chunk: string;
+}
+
+export type LongPostStrategy = 'chunk' | 'outline';
+
+export type LowConfidenceMode = 'drop' | 'flag';
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+/** 按 git 状态筛选文章，多个条件取并集 */
+export interface GitSelection {
+  since: string | null;
+  staged: boolean;
+  untracked: boolean;
+}
+
 export interface TagSyncConfig {
   cwd: string;
   workspaceRoot: string;
@@ -12,39 +55,123 @@ export interface TagSyncConfig {
   postRootRaw: string;
   tagsJsonPath: string;
   tagsJsonRaw: string;
+  stateJsonPath: string;
+  stateJsonRaw: string;
+  reviewJsonPath: string;
+  reviewJsonRaw: string;
+  categoriesJsonPath: string;
+  categoriesJsonRaw: string;
+  scoresJsonPath: string;
+  scoresJsonRaw: string;
+  relatedJsonPath: string;
+  relatedJsonRaw: string;
+  /** `pages` 命令生成标签页的目录，每个标签对应 `<slug>/index.md` */
+  pagesDir: string;
+  pagesDirRaw: string;
+  categoriesMode: CategoriesMode;
+  provider: ProviderName;
   apiKey: string;
   model: string;
   baseUrl: string;
   proxyUrl: string | null;
   language: string;
   dryRun: boolean;
+  diffFormat: DiffFormat;
+  /** dry-run 差异输出文件；为 null 时打印到标准输出 */
+  diffFile: string | null;
   includeDrafts: boolean;
   filter: string;
+  /** 未指定任何 git 条件时为 null */
+  gitSelection: GitSelection | null;
   timeoutMs: number;
   maxConcurrency: number;
   sortTags: boolean;
   debug: boolean;
+  taxonomyPath: string | null;
   taxonomyRules: TaxonomyRules | null;
+  tagAliases: TagAliasLookup;
+  vocabularyTokenBudget: number;
+  strictVocabulary: boolean;
+  allowNewTags: boolean;
+  responseFormat: ResponseFormatMode;
+  /** 未配置 `TAG_SYNC_PROMPT_FILE` 时为 null，使用内置模板 */
+  promptFile: string | null;
+  promptTemplate: PromptTemplate;
+  tagScores: boolean;
+  minConfidence: number;
+  lowConfidence: LowConfidenceMode;
+  prune: boolean;
+  /** 每篇文章的标签上限，0 表示不限制 */
+  maxTags: number;
+  minKeptTags: number;
+  /** 覆盖 tags.json 前保留的 `.bak` 备份数量，0 表示不备份 */
+  backups: number;
+  cacheDir: string | null;
+  cacheTtlMs: number;
+  contentTokenBudget: number;
+  longPostStrategy: LongPostStrategy;
   extraHeaders: Record<string, string>;
+  /** `related` 命令使用的 OpenAI 兼容向量接口 */
+  embeddingBaseUrl: string;
+  embeddingApiKey: string;
+  embeddingModel: string;
+  /** 每篇文章保留的相关文章数量 */
+  relatedLimit: number;
+  /** 标签重合度在相关度得分中的权重（0-1），其余为向量相似度 */
+  relatedTagWeight: number;
 }
 
 export interface ConfigOverrides {
   postRoot?: string;
   tagsJson?: string;
+  stateJson?: string;
+  reviewJson?: string;
+  categoriesJson?: string;
+  scoresJson?: string;
+  categoriesMode?: string;
+  provider?: string;
   apiKey?: string;
   model?: string;
   baseUrl?: string;
   proxyUrl?: string | null;
   language?: string;
   dryRun?: boolean;
+  diffFormat?: string;
+  diffFile?: string;
   includeDrafts?: boolean;
   filter?: string;
+  since?: string;
+  staged?: boolean;
+  untracked?: boolean;
   timeoutSeconds?: number;
   maxConcurrency?: number;
   sortTags?: boolean;
   debug?: boolean;
   taxonomyPath?: string;
+  /** 为 false 时只解析路径、不读取规则内容，供 `taxonomy lint` 自行报告文件错误 */
+  loadTaxonomy?: boolean;
+  aliasesPath?: string;
+  vocabularyTokenBudget?: number;
+  strictVocabulary?: boolean;
+  allowNewTags?: boolean;
+  responseFormat?: string;
+  tagScores?: boolean;
+  minConfidence?: number | string;
+  lowConfidence?: string;
+  prune?: boolean;
+  maxTags?: number | string;
+  minKeptTags?: number | string;
+  backups?: number | string;
+  cache?: boolean;
+  cacheDir?: string;
+  cacheTtlSeconds?: number;
+  contentTokenBudget?: number;
+  longPostStrategy?: string;
   extraHeaders?: string;
+  relatedJson?: string;
+  relatedLimit?: number | string;
+  pagesDir?: string;
+  promptFile?: string;
 }
 
 export interface LoadedPost {
@@ -65,21 +192,70 @@ export interface Logger {
   debug(message: unknown, metadata?: unknown): void;
 }
 
+/** 模型对单个标签给出的置信度与理由；`flagged` 表示低于阈值但按 flag 模式保留 */
+export interface TagScore {
+  tag: string;
+  confidence?: number;
+  reason?: string;
+  flagged?: boolean;
+}
+
 export interface LlmResponse {
   tags: string[];
+  scores?: TagScore[];
+  /** prune 模式下模型建议移除的已有标签 */
+  remove?: string[];
   raw: string | null;
   error?: Error;
   model?: string;
+  /** 实际使用的输出模式（服务拒绝结构化输出时为 `text`） */
+  mode?: ResponseFormatMode;
+  cached?: boolean;
+}
+
+/** 一次生成过程中实际发出的模型请求与缓存命中次数（长文分段时每段各计一次） */
+export interface RequestCounts {
+  llmCalls: number;
+  cacheHits: number;
+}
+
+export interface AliasRewrite {
+  from: string;
+  to: string;
 }
 
 export interface MergeResult {
   tags: string[];
   added: string[];
+  aliased: AliasRewrite[];
+  rejected: string[];
+  /** prune 模式下从已有标签中移除的标签 */
+  removed: string[];
+  /** 置信度低于阈值的推荐标签（drop 模式下不在 tags 中） */
+  lowConfidence: string[];
+  /** 最终标签中带有评分的条目 */
+  scores: TagScore[];
   classification: Record<string, string>;
 }
 
 export type TagsMap = Record<string, string[]>;
 
+export interface PostGenerationState {
+  contentHash: string;
+  model: string;
+  promptVersion: string;
+  updatedAt: string;
+}
+
+export type SyncState = Record<string, PostGenerationState>;
+
+export type TagScoresMap = Record<string, TagScore[]>;
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
 export interface WriteResult {
   updatedPaths: string[];
   skippedPaths: string[];
@@ -92,6 +268,11 @@ export interface SyncStatistics {
   skippedPosts: number;
   llmCalls: number;
   llmFailures: number;
+  cacheHits: number;
   totalTags: number;
   totalNewTags: number;
+  totalAliasedTags: number;
+  totalRejectedTags: number;
+  totalLowConfidenceTags: number;
+  totalRemovedTags: number;
 }
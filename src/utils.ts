@@ -1,3 +1,4 @@
+import fs from 'fs/promises';
 import path from 'path';
 
 export function toPosix(filePath: string): string {
@@ -27,6 +28,66 @@ export function ensureArray(value: unknown): string[] {
   return [String(value).trim()].filter(Boolean);
 }
 
+/** 仅判断自身属性，避免 `constructor`、`__proto__` 等原型上的键被当作已配置的值 */
+export function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
 export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * 先写入同目录下的临时文件并刷盘，再 rename 覆盖目标，避免进程中断时留下截断的文件。
+ * 目标为符号链接时写入其指向的文件，并保留原文件的权限位。
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  let targetPath = filePath;
+  let mode: number | undefined;
+  try {
+    targetPath = await fs.realpath(filePath);
+    mode = (await fs.stat(targetPath)).mode & 0o7777;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  await fs.mkdir(path.dirname(targetPath), { recursive: true });
+  const tempPath = path.join(path.dirname(targetPath), `.${path.basename(targetPath)}.${process.pid}.${Date.now()}.tmp`);
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf8');
+      if (mode !== undefined) await handle.chmod(mode);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * 轮转备份：`file.bak` 为最近一次，更早的依次为 `file.bak.1`、`file.bak.2`……，最多保留 `count` 份。
+ * 目标文件不存在时不做任何事，返回是否生成了新备份。
+ */
+export async function rotateBackups(filePath: string, count: number): Promise<boolean> {
+  if (count <= 0) return false;
+  try {
+    await fs.access(filePath);
+  } catch {
+    return false;
+  }
+  const backupName = (index: number) => (index === 0 ? `${filePath}.bak` : `${filePath}.bak.${index}`);
+  await fs.rm(backupName(count - 1), { force: true });
+  for (let index = count - 2; index >= 0; index -= 1) {
+    try {
+      await fs.rename(backupName(index), backupName(index + 1));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  await fs.copyFile(filePath, backupName(0));
+  return true;
+}
@@ -1,24 +1,43 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { Logger, TagsMap, TagSyncConfig, WriteResult } from './types';
+import { buildTagDiffEntries, emitTagDiff } from './diff';
+import { resolvePostCategories } from './taxonomy';
+import { CategoriesMap, Logger, TagScoresMap, TagsMap, TagSyncConfig, WriteResult } from './types';
+import { rotateBackups, writeFileAtomic } from './utils';
 
+/**
+ * 读取 tags.json。文件不存在时返回空对象；内容损坏时直接报错，
+ * 避免把截断的文件当作空记录，导致下一次增量运行重新生成全部文章。
+ */
 export async function readTagsFile(filePath: string, logger: Logger): Promise<TagsMap> {
+  let raw: string;
   try {
-    const raw = await fs.readFile(filePath, 'utf8');
-    const parsed = JSON.parse(raw) as TagsMap;
-    if (parsed && typeof parsed === 'object') {
-      return parsed;
-    }
-    return {};
+    raw = await fs.readFile(filePath, 'utf8');
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       logger.debug?.(`Existing tags.json not found at ${filePath}.`);
       return {};
     }
+    throw error;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    logger.warn?.(`Failed to read existing tags.json: ${message}`);
-    return {};
+    // 仅在备份确实存在时提示从备份恢复（TAG_SYNC_BACKUPS=0 或首次写入前都没有备份）
+    const backup = `${filePath}.bak`;
+    const hasBackup = await fs.access(backup).then(
+      () => true,
+      () => false
+    );
+    const advice = hasBackup ? `Fix the file or restore it from ${path.basename(backup)}` : 'Fix or remove the file';
+    throw new Error(`Tag Sync: Failed to parse tags.json at ${filePath}: ${message}. ${advice} before running again.`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Tag Sync: ${filePath} must be an object of post path -> tags.`);
   }
+  return parsed as TagsMap;
 }
 
 function arraysEqual(a: string[] | undefined, b: string[] | undefined): boolean {
@@ -44,18 +63,20 @@ function buildDiff(existing: TagsMap, next: TagsMap) {
   return { updatedPaths, removedPaths };
 }
 
-function formatSampleDiff(existing: TagsMap, next: TagsMap, paths: string[]): Array<{ path: string; before: string[] | undefined; after: string[] | undefined }> {
-  return paths.slice(0, 10).map((relativePath) => ({
-    path: relativePath,
-    before: existing[relativePath],
-    after: next[relativePath]
-  }));
+// 每个进程只在第一次覆盖 tags.json 前轮转一次备份，避免增量快照把运行前的版本挤出备份
+const backedUpPaths = new Set<string>();
+
+async function backupTagsFile(config: TagSyncConfig, logger: Logger): Promise<void> {
+  if (config.backups <= 0 || backedUpPaths.has(config.tagsJsonPath)) return;
+  backedUpPaths.add(config.tagsJsonPath);
+  if (await rotateBackups(config.tagsJsonPath, config.backups)) {
+    logger.debug(`Backed up ${config.tagsJsonRaw} to ${config.tagsJsonRaw}.bak`);
+  }
 }
 
 export async function writeTagsSnapshot(tags: TagsMap, config: TagSyncConfig, logger: Logger, reason?: string): Promise<void> {
-  await fs.mkdir(path.dirname(config.tagsJsonPath), { recursive: true });
-  const serialized = JSON.stringify(tags, null, 2);
-  await fs.writeFile(config.tagsJsonPath, serialized, 'utf8');
+  await backupTagsFile(config, logger);
+  await writeFileAtomic(config.tagsJsonPath, JSON.stringify(tags, null, 2));
   logger.debug(`Incremental tags.json update${reason ? ` after ${reason}` : ''}`);
 }
 
@@ -68,7 +89,7 @@ export async function writeTagsFile(tags: TagsMap, config: TagSyncConfig, logger
   if (config.dryRun) {
     logger.info(`Dry run enabled. ${changedPaths.length} entries would change.`);
     if (changedPaths.length > 0) {
-      logger.info('Sample diff:', formatSampleDiff(existing, tags, changedPaths));
+      await emitTagDiff(buildTagDiffEntries(existing, tags, updatedPaths, removedPaths), config, logger, `${config.tagsJsonRaw} changes`);
     }
     return {
       updatedPaths: changedPaths,
@@ -77,9 +98,8 @@ export async function writeTagsFile(tags: TagsMap, config: TagSyncConfig, logger
     };
   }
 
-  await fs.mkdir(path.dirname(config.tagsJsonPath), { recursive: true });
-  const serialized = JSON.stringify(tags, null, 2);
-  await fs.writeFile(config.tagsJsonPath, serialized, 'utf8');
+  await backupTagsFile(config, logger);
+  await writeFileAtomic(config.tagsJsonPath, JSON.stringify(tags, null, 2));
   logger.info(`Tags written to ${config.tagsJsonPath}. Updated ${changedPaths.length} entries.`);
 
   return {
@@ -88,3 +108,63 @@ export async function writeTagsFile(tags: TagsMap, config: TagSyncConfig, logger
     created
   };
 }
+
+export function buildCategoriesMap(tags: TagsMap, config: Pick<TagSyncConfig, 'taxonomyRules'>): CategoriesMap {
+  return Object.fromEntries(
+    Object.entries(tags).map(([relativePath, tagList]) => [
+      relativePath,
+      resolvePostCategories(tagList, config.taxonomyRules, 'all')
+    ])
+  );
+}
+
+export async function writeCategoriesFile(tags: TagsMap, config: TagSyncConfig, logger: Logger): Promise<void> {
+  if (!config.taxonomyRules) {
+    return;
+  }
+  const categories = buildCategoriesMap(tags, config);
+  if (config.dryRun) {
+    logger.debug(`Dry run enabled. Skipping ${config.categoriesJsonRaw} update.`);
+    return;
+  }
+  await writeFileAtomic(config.categoriesJsonPath, JSON.stringify(categories, null, 2));
+  logger.info(`Categories written to ${config.categoriesJsonPath}.`);
+}
+
+export async function readScoresFile(filePath: string, logger: Logger): Promise<TagScoresMap> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8')) as TagScoresMap;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug?.(`Existing scores file not found at ${filePath}.`);
+      return {};
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn?.(`Failed to read existing scores file: ${message}`);
+    return {};
+  }
+}
+
+/**
+ * 写入标签评分旁路文件，只保留仍存在于 tags.json 中的文章与标签。
+ */
+export async function writeScoresFile(scores: TagScoresMap, tags: TagsMap, config: TagSyncConfig, logger: Logger): Promise<void> {
+  const next: TagScoresMap = {};
+  for (const [relativePath, entries] of Object.entries(scores).sort((a, b) => a[0].localeCompare(b[0], 'en-US'))) {
+    const current = new Set((tags[relativePath] ?? []).map((tag) => tag.toLowerCase()));
+    const kept = entries.filter((entry) => current.has(entry.tag.toLowerCase()));
+    if (kept.length > 0) {
+      next[relativePath] = kept;
+    }
+  }
+  if (!config.tagScores && Object.keys(next).length === 0) {
+    return;
+  }
+  if (config.dryRun) {
+    logger.debug(`Dry run enabled. Skipping ${config.scoresJsonRaw} update.`);
+    return;
+  }
+  await writeFileAtomic(config.scoresJsonPath, JSON.stringify(next, null, 2));
+  logger.debug(`Tag scores written to ${config.scoresJsonPath}.`);
+}
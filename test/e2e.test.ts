@@ -0,0 +1,843 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { buildDiffEntry, emitTagDiff } from '../src/diff';
+import { scoreTags } from '../src/eval';
+import { createLogger } from '../src/logger';
+import { MockReply, MockServer, startMockServer } from '../src/mock-server';
+import { copyFixture, FIXTURE_ROOT, git, readJson, readText, removeDir, runCli } from './helpers';
+
+const GOLDEN_ROOT = path.join(FIXTURE_ROOT, 'golden');
+
+const SCRIPTED_TAGS: Record<string, string> = {
+  '使用Rust描述音乐系统并模拟乐器演奏': '好的，推荐标签如下：["音频处理", "rust", "十二平均律"]',
+  'K8s 入门': '["Kubernetes", "Docker", "kind"]'
+};
+
+function replyByTitle(prompt: string): MockReply {
+  for (const [title, content] of Object.entries(SCRIPTED_TAGS)) {
+    if (prompt.includes(`文章标题：${title}`)) {
+      return { content };
+    }
+  }
+  return { status: 500, body: 'unexpected post' };
+}
+
+function promptOf(server: MockServer, index: number): string {
+  return server.requests[index]?.body.messages?.find((message) => message.role === 'user')?.content ?? '';
+}
+
+describe('generate and apply against the mock server', () => {
+  let server: MockServer;
+  let workspace: string;
+  let env: Record<string, string>;
+
+  before(async () => {
+    server = await startMockServer({
+      respond: (request) => replyByTitle(request.body.messages?.[1]?.content ?? '')
+    });
+    workspace = await copyFixture('blog');
+    env = {
+      TAG_SYNC_API_KEY: 'test-key',
+      TAG_SYNC_BASE_URL: server.url,
+      TAG_SYNC_ALIASES_JSON: 'aliases.json',
+      TAG_SYNC_MAX_CONCURRENCY: '1'
+    };
+  });
+
+  after(async () => {
+    await server.close();
+    await removeDir(workspace);
+  });
+
+  it('generates tags.json for posts missing from it', async () => {
+    const result = await runCli(workspace, ['generate'], env);
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(server.requests.length, 2);
+    assert.equal(server.requests[0].headers.authorization, 'Bearer test-key');
+    assert.match(promptOf(server, 0), /全站已有标签（按使用频次排序）：虚拟化, Hyper-V, PVE/);
+
+    const actual = await readJson(path.join(workspace, 'tags.json'));
+    const expected = await readJson(path.join(GOLDEN_ROOT, 'tags.json'));
+    assert.deepEqual(actual, expected);
+  });
+
+  it('skips posts already present in tags.json on the next run', async () => {
+    const callsBefore = server.requests.length;
+    const result = await runCli(workspace, ['generate'], env);
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(server.requests.length, callsBefore);
+  });
+
+  it('answers an identical --full rerun from the response cache', async () => {
+    const args = ['generate', '--full', '--filter=k8s-intro'];
+    const first = await runCli(workspace, args, env);
+    assert.equal(first.code, 0, first.stderr);
+    const callsBefore = server.requests.length;
+
+    const second = await runCli(workspace, args, env);
+    assert.equal(second.code, 0, second.stderr);
+    assert.equal(server.requests.length, callsBefore);
+    assert.match(second.stdout, /cacheHits: 1/);
+    assert.match(second.stdout, /llmCalls: 0/);
+  });
+
+  it('writes tags.json back into front-matter', async () => {
+    const result = await runCli(workspace, ['apply'], env);
+    assert.equal(result.code, 0, result.stderr);
+
+    for (const relativePath of [
+      'source/_posts/Rust/使用Rust描述音乐系统.md',
+      'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md',
+      'source/_posts/k8s-intro.md',
+      'source/_posts/draft.md'
+    ]) {
+      const actual = await readText(path.join(workspace, relativePath));
+      const expected = await readText(path.join(GOLDEN_ROOT, relativePath));
+      assert.equal(actual, expected, relativePath);
+    }
+  });
+});
+
+describe('interactive review', () => {
+  let server: MockServer;
+  let workspace: string;
+  let env: Record<string, string>;
+
+  before(async () => {
+    server = await startMockServer({
+      respond: (request) => replyByTitle(request.body.messages?.[1]?.content ?? '')
+    });
+    workspace = await copyFixture('blog');
+    env = {
+      TAG_SYNC_API_KEY: 'test-key',
+      TAG_SYNC_BASE_URL: server.url,
+      TAG_SYNC_ALIASES_JSON: 'aliases.json',
+      TAG_SYNC_MAX_CONCURRENCY: '1'
+    };
+  });
+
+  after(async () => {
+    await server.close();
+    await removeDir(workspace);
+  });
+
+  it('saves review progress without touching tags.json and resumes later', async () => {
+    const tagsPath = path.join(workspace, 'tags.json');
+    const original = await readText(tagsPath);
+
+    // k8s-intro：取消 kind 后接受；Rust 文章处保存退出
+    const first = await runCli(workspace, ['generate', '--review'], env, '3\n\nq\n');
+    assert.equal(first.code, 0, first.stderr);
+    assert.match(first.stdout, /\[1\/2\] source\/_posts\/k8s-intro\.md/);
+    assert.match(first.stdout, /3\. \[x\] kind {2}\(added\)/);
+    assert.equal(await readText(tagsPath), original);
+    const session = await readJson<{ entries: Array<{ path: string; status: string; tags?: string[] }> }>(
+      path.join(workspace, 'tags.review.json')
+    );
+    assert.deepEqual(
+      session.entries.map((entry) => [entry.path, entry.status, entry.tags]),
+      [
+        ['source/_posts/k8s-intro.md', 'accepted', ['Docker', 'Kubernetes']],
+        ['source/_posts/Rust/使用Rust描述音乐系统.md', 'pending', undefined]
+      ]
+    );
+
+    const callsBefore = server.requests.length;
+    const resumed = await runCli(workspace, ['generate', '--resume'], env, 's\ny\n');
+    assert.equal(resumed.code, 0, resumed.stderr);
+    assert.equal(server.requests.length, callsBefore);
+    const tags = await readJson<Record<string, string[]>>(tagsPath);
+    assert.deepEqual(tags['source/_posts/k8s-intro.md'], ['Docker', 'Kubernetes']);
+    assert.equal(tags['source/_posts/Rust/使用Rust描述音乐系统.md'], undefined);
+    await assert.rejects(readText(path.join(workspace, 'tags.review.json')), { code: 'ENOENT' });
+  });
+});
+
+describe('check command', () => {
+  it('reports drift between front-matter and tags.json without writing', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const tagsPath = path.join(workspace, 'tags.json');
+      await fs.writeFile(
+        tagsPath,
+        JSON.stringify({
+          'source/_posts/k8s-intro.md': ['K8s'],
+          'source/_posts/已删除.md': ['Go'],
+          'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': ['Hyper-V', '虚拟化']
+        }),
+        'utf8'
+      );
+      const before = await readText(tagsPath);
+      const result = await runCli(workspace, ['check', '--format=json']);
+      assert.equal(result.code, 1, result.stderr);
+      assert.deepEqual(JSON.parse(result.stdout), {
+        untracked: ['source/_posts/Rust/使用Rust描述音乐系统.md'],
+        stale: ['source/_posts/已删除.md'],
+        mismatched: [
+          {
+            path: 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md',
+            tagsJson: ['虚拟化', 'Hyper-V'],
+            frontMatter: ['虚拟化'],
+            missingInFrontMatter: ['Hyper-V'],
+            missingInTagsJson: []
+          }
+        ],
+        checked: 3
+      });
+      assert.equal(await readText(tagsPath), before);
+
+      await fs.writeFile(
+        tagsPath,
+        JSON.stringify({
+          'source/_posts/k8s-intro.md': ['K8s'],
+          'source/_posts/Rust/使用Rust描述音乐系统.md': ['Rust'],
+          'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': ['虚拟化']
+        }),
+        'utf8'
+      );
+      const clean = await runCli(workspace, ['check']);
+      assert.equal(clean.code, 0, clean.stdout + clean.stderr);
+      assert.match(clean.stdout, /in sync \(3 posts checked\)/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('stats command', () => {
+  const hyperv = 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md';
+  const k8s = 'source/_posts/k8s-intro.md';
+  const rust = 'source/_posts/Rust/使用Rust描述音乐系统.md';
+
+  it('reports frequency, orphans, tag count outliers and categories as table, JSON and CSV', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      await fs.writeFile(
+        path.join(workspace, 'tags.json'),
+        JSON.stringify({ [hyperv]: ['Hyper-V', 'PVE', '虚拟化'], [k8s]: ['Kubernetes', 'Docker', 'kind', '虚拟化'] }),
+        'utf8'
+      );
+      const env = { TAG_SYNC_TAXONOMY_JSON: 'taxonomy.json' };
+      const args = ['--min-tags=2', '--max-tags=3'];
+
+      const json = await runCli(workspace, ['stats', ...args, '--format=json'], env);
+      assert.equal(json.code, 0, json.stderr);
+      const report = JSON.parse(json.stdout) as {
+        totalPosts: number;
+        trackedPosts: number;
+        totalTags: number;
+        frequency: Array<{ tag: string; count: number; category: string }>;
+        orphanTags: Array<{ tag: string; path: string }>;
+        underTagged: Array<{ path: string; count: number; source: string }>;
+        overTagged: Array<{ path: string; count: number; source: string }>;
+        categories: Array<{ category: string; tags: number; usages: number; posts: number }>;
+      };
+      assert.deepEqual([report.totalPosts, report.trackedPosts, report.totalTags], [3, 2, 7]);
+      assert.deepEqual(report.frequency[0], { tag: '虚拟化', count: 2, category: '虚拟化' });
+      assert.equal(report.frequency.find((entry) => entry.tag === 'Rust')?.category, '编程语言 > Rust');
+      assert.deepEqual(
+        report.orphanTags.map((entry) => entry.tag),
+        ['Docker', 'Hyper-V', 'kind', 'Kubernetes', 'PVE', 'Rust']
+      );
+      assert.deepEqual(report.underTagged, [{ path: rust, count: 1, source: 'front-matter' }]);
+      assert.deepEqual(report.overTagged, [{ path: k8s, count: 4, source: 'tags.json' }]);
+      assert.deepEqual(report.categories, [
+        { category: '虚拟化', tags: 3, usages: 4, posts: 2 },
+        { category: '云原生', tags: 3, usages: 3, posts: 1 },
+        { category: '编程语言 > Rust', tags: 1, usages: 1, posts: 1 }
+      ]);
+
+      const csv = await runCli(workspace, ['report', ...args, '--format=csv'], env);
+      assert.equal(csv.code, 0, csv.stderr);
+      const lines = csv.stdout.trim().split('\n');
+      assert.equal(lines[0], 'section,name,count,detail');
+      assert.ok(lines.includes(`orphan,Rust,1,${rust}`));
+      assert.ok(lines.includes(`under_tagged,${rust},1,front-matter`));
+      assert.ok(lines.includes(`over_tagged,${k8s},4,tags.json`));
+      assert.ok(lines.includes('category,虚拟化,4,tags=3;posts=2'));
+
+      const table = await runCli(workspace, ['stats', ...args], env);
+      assert.equal(table.code, 0, table.stderr);
+      assert.match(table.stdout, /Posts: 3 \(tracked in tags\.json: 2\), distinct tags: 7/);
+      assert.match(table.stdout, /Orphan tags \(6\)/);
+      assert.match(table.stdout, /Posts with fewer than 2 tags \(1\)\n.*\n.*\nsource\/_posts\/Rust\/使用Rust描述音乐系统\.md +1 +front-matter/);
+      assert.match(table.stdout, /Posts with more than 3 tags \(1\)\n.*\n.*\nsource\/_posts\/k8s-intro\.md +4 +tags\.json/);
+      assert.match(table.stdout, /\n云原生 +3 +3 +1\n/);
+
+      const invalid = await runCli(workspace, ['stats', '--format=xml']);
+      assert.equal(invalid.code, 1);
+      assert.match(invalid.stderr, /Unsupported stats format "xml"/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('uses its own --max-tags threshold instead of TAG_SYNC_MAX_TAGS', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_MAX_TAGS: '1' };
+      const defaults = await runCli(workspace, ['stats'], env);
+      assert.equal(defaults.code, 0, defaults.stderr);
+      assert.match(defaults.stdout, /Posts with more than 6 tags \(0\)/);
+
+      const custom = await runCli(workspace, ['stats', '--max-tags=2'], env);
+      assert.equal(custom.code, 0, custom.stderr);
+      assert.match(custom.stdout, /Posts with more than 2 tags \(1\)/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('import command', () => {
+  it('builds tags.json from front-matter without calling the model', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_ALIASES_JSON: 'aliases.json' };
+      const merged = await runCli(workspace, ['import'], env);
+      assert.equal(merged.code, 0, merged.stderr);
+      assert.deepEqual(await readJson(path.join(workspace, 'tags.json')), {
+        'source/_posts/k8s-intro.md': ['Kubernetes'],
+        'source/_posts/Rust/使用Rust描述音乐系统.md': ['Rust'],
+        'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': ['虚拟化', 'Hyper-V', 'PVE']
+      });
+
+      const overwritten = await runCli(workspace, ['import', '--overwrite'], env);
+      assert.equal(overwritten.code, 0, overwritten.stderr);
+      assert.deepEqual(await readJson(path.join(workspace, 'tags.json')), {
+        'source/_posts/k8s-intro.md': ['Kubernetes'],
+        'source/_posts/Rust/使用Rust描述音乐系统.md': ['Rust'],
+        'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': ['虚拟化']
+      });
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('git-aware selection', () => {
+  let server: MockServer;
+  let workspace: string;
+  let env: Record<string, string>;
+
+  before(async () => {
+    server = await startMockServer({
+      respond: (request) => replyByTitle(request.body.messages?.[1]?.content ?? '')
+    });
+    workspace = await copyFixture('blog');
+    env = { TAG_SYNC_API_KEY: 'test-key', TAG_SYNC_BASE_URL: server.url, TAG_SYNC_MAX_CONCURRENCY: '1' };
+    await git(workspace, ['init', '--quiet']);
+    await git(workspace, ['add', '-A']);
+    await git(workspace, ['commit', '--quiet', '-m', 'baseline']);
+  });
+
+  after(async () => {
+    await server.close();
+    await removeDir(workspace);
+  });
+
+  it('follows a staged rename without regenerating the post', async () => {
+    const from = 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md';
+    const to = 'source/_posts/虚拟化/hyper-v-nested.md';
+    await git(workspace, ['mv', from, to]);
+
+    const result = await runCli(workspace, ['generate', '--staged'], env);
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(server.requests.length, 0);
+    assert.deepEqual(await readJson(path.join(workspace, 'tags.json')), { [to]: ['Hyper-V', 'PVE', '虚拟化'] });
+  });
+
+  it('only generates tags for posts changed since a ref or left untracked', async () => {
+    const k8s = path.join(workspace, 'source/_posts/k8s-intro.md');
+    await fs.appendFile(k8s, '\n补充一段内容。\n', 'utf8');
+    await fs.writeFile(path.join(workspace, 'source/_posts/untracked.md'), '---\ntitle: 未跟踪\ntags: [草稿箱]\n---\n正文\n');
+
+    const since = await runCli(workspace, ['generate', '--since=HEAD'], env);
+    assert.equal(since.code, 0, since.stderr);
+    assert.equal(server.requests.length, 1);
+    assert.match(promptOf(server, 0), /文章标题：K8s 入门/);
+
+    const untracked = await runCli(workspace, ['import', '--untracked'], env);
+    assert.equal(untracked.code, 0, untracked.stderr);
+    const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+    assert.deepEqual(Object.keys(tags), [
+      'source/_posts/k8s-intro.md',
+      'source/_posts/untracked.md',
+      'source/_posts/虚拟化/hyper-v-nested.md'
+    ]);
+  });
+
+  it('fails clearly for an unknown ref', async () => {
+    const result = await runCli(workspace, ['check', '--since=no-such-ref'], env);
+    assert.equal(result.code, 1);
+    assert.match(result.stdout + result.stderr, /git merge-base no-such-ref HEAD failed/);
+  });
+
+  it('rejects --since without a ref', async () => {
+    for (const flag of ['--since', '--since=', '--since= ']) {
+      const result = await runCli(workspace, ['check', flag], env);
+      assert.equal(result.code, 1, flag);
+      assert.match(result.stdout + result.stderr, /--since requires a git ref/);
+    }
+  });
+});
+
+describe('rename command', () => {
+  const hyperv = 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md';
+  const k8s = 'source/_posts/k8s-intro.md';
+
+  it('previews, merges case-insensitively into existing tags and pushes changes into front-matter', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const tagsPath = path.join(workspace, 'tags.json');
+      await fs.writeFile(tagsPath, JSON.stringify({ [hyperv]: ['Hyper-V', 'PVE', '虚拟化'], [k8s]: ['K8s', 'kubernetes', 'Docker'] }), 'utf8');
+      const before = await readText(tagsPath);
+
+      const preview = await runCli(workspace, ['rename', '--from=k8s', '--to=Kubernetes', '--dry-run']);
+      assert.equal(preview.code, 0, preview.stderr);
+      assert.match(preview.stdout, /Dry run: would rename tags in source\/_posts\/k8s-intro\.md: \[K8s, kubernetes, Docker\] -> \[Docker, Kubernetes\]/);
+      assert.match(preview.stdout, /Would rename tags in 1 entry/);
+      assert.equal(await readText(tagsPath), before);
+
+      const renamed = await runCli(workspace, ['rename', '--from=k8s', '--to=Kubernetes', '--frontmatter']);
+      assert.equal(renamed.code, 0, renamed.stderr);
+      const tags = await readJson<Record<string, string[]>>(tagsPath);
+      assert.deepEqual(tags[k8s], ['Docker', 'Kubernetes']);
+      assert.deepEqual(tags[hyperv], ['Hyper-V', 'PVE', '虚拟化']);
+      assert.match(await readText(path.join(workspace, k8s)), /tags:\n {2}- Docker\n {2}- Kubernetes\n/);
+      assert.match(await readText(path.join(workspace, hyperv)), /tags: 虚拟化/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('merges repeated writes to the same diff file within one run', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const logger = createLogger();
+      const tagsEntries = [buildDiffEntry('source/_posts/k8s-intro.md', ['K8s'], ['Kubernetes'])];
+      const frontMatterEntries = [buildDiffEntry('source/_posts/k8s-intro.md', ['K8s'], ['K8s', 'Docker'])];
+
+      const markdownFile = path.join(workspace, 'diff.md');
+      const markdownConfig = { diffFormat: 'markdown' as const, diffFile: markdownFile };
+      await emitTagDiff(tagsEntries, markdownConfig, logger, 'tags.json changes');
+      await emitTagDiff(frontMatterEntries, markdownConfig, logger, 'Front-matter tag changes');
+      const markdown = await readText(markdownFile);
+      assert.match(markdown, /^### tags\.json changes\n[\s\S]+\n\n### Front-matter tag changes\n/);
+
+      const jsonFile = path.join(workspace, 'diff.json');
+      const jsonConfig = { diffFormat: 'json' as const, diffFile: jsonFile };
+      await emitTagDiff(tagsEntries, jsonConfig, logger, 'tags.json changes');
+      await emitTagDiff(frontMatterEntries, jsonConfig, logger, 'Front-matter tag changes');
+      const report = await readJson<{ summary: { posts: number }; entries: Array<{ source: string; added: string[] }> }>(jsonFile);
+      assert.equal(report.summary.posts, 2);
+      assert.deepEqual(
+        report.entries.map((entry) => [entry.source, entry.added]),
+        [
+          ['tags.json changes', ['Kubernetes']],
+          ['Front-matter tag changes', ['Docker']]
+        ]
+      );
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('resolves --map against the current directory', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const cwd = path.join(workspace, 'source');
+      await fs.writeFile(path.join(cwd, 'renames.json'), JSON.stringify({ PVE: 'Proxmox VE' }), 'utf8');
+      const result = await runCli(cwd, ['rename', '--map=renames.json']);
+      assert.equal(result.code, 0, result.stderr);
+      assert.deepEqual((await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json')))[hyperv], [
+        '虚拟化',
+        'Hyper-V',
+        'Proxmox VE'
+      ]);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('related command', () => {
+  it('combines embedding similarity with tag overlap and caches embeddings', async () => {
+    const vectors: Record<string, number[]> = {
+      'K8s 入门': [1, 0, 0],
+      '折腾Hyper-V嵌套虚拟化来运行PVE': [0.8, 0.6, 0],
+      '使用Rust描述音乐系统并模拟乐器演奏': [0, 0, 1]
+    };
+    const server = await startMockServer({
+      embed: (input) => vectors[input.split('\n')[0]] ?? [0, 0, 0]
+    });
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_API_KEY: 'test-key', TAG_SYNC_BASE_URL: server.url };
+      const first = await runCli(workspace, ['related', '--top=1'], env);
+      assert.equal(first.code, 0, first.stderr);
+      assert.equal(server.embeddingRequests.length, 1);
+      assert.equal(server.embeddingRequests[0].model, 'text-embedding-3-small');
+      assert.equal(server.embeddingRequests[0].input.length, 3);
+
+      const related = await readJson<Record<string, Array<{ path: string; score: number; similarity: number }>>>(
+        path.join(workspace, 'related.json')
+      );
+      const k8s = 'source/_posts/k8s-intro.md';
+      const hyperv = 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md';
+      assert.deepEqual(Object.keys(related).length, 3);
+      assert.equal(related[k8s][0].path, hyperv);
+      assert.equal(related[k8s][0].similarity, 0.8);
+      assert.equal(related[k8s][0].score, 0.56);
+      assert.equal(related[hyperv][0].path, k8s);
+      assert.deepEqual(related['source/_posts/Rust/使用Rust描述音乐系统.md'], []);
+
+      const second = await runCli(workspace, ['related'], env);
+      assert.equal(second.code, 0, second.stderr);
+      assert.equal(server.embeddingRequests.length, 1);
+      assert.match(second.stdout, /3 from cache, 0 requests/);
+
+      // 筛选后只重算选中文章，其余文章的结果保留，且未选中的文章仍可作为候选
+      await fs.writeFile(path.join(workspace, 'related.json'), JSON.stringify({ ...related, 'source/_posts/gone.md': [] }), 'utf8');
+      const filtered = await runCli(workspace, ['related', '--top=1', '--filter=k8s'], env);
+      assert.equal(filtered.code, 0, filtered.stderr);
+      assert.match(filtered.stdout, /1 updated/);
+      const merged = await readJson<typeof related>(path.join(workspace, 'related.json'));
+      assert.deepEqual(Object.keys(merged).sort(), Object.keys(related).sort());
+      assert.deepEqual(merged[hyperv], related[hyperv]);
+      assert.equal(merged[k8s][0].path, hyperv);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('pages command', () => {
+  it('regenerates tag pages only when their posts change and keeps manual edits', async () => {
+    const server = await startMockServer({
+      respond: (request) => {
+        const tag = /博客标签「(.+?)」/.exec(request.body.messages?.[1]?.content ?? '')?.[1];
+        return tag ? { content: `${tag} 标签收录了相关的折腾记录。` } : { status: 500, body: 'unexpected prompt' };
+      }
+    });
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_API_KEY: 'test-key', TAG_SYNC_BASE_URL: server.url };
+      const hyperv = 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md';
+      await fs.writeFile(
+        path.join(workspace, 'tags.json'),
+        JSON.stringify({ [hyperv]: ['Hyper-V', 'PVE', '虚拟化'], 'source/_posts/k8s-intro.md': ['K8s', '虚拟化'] }),
+        'utf8'
+      );
+
+      const first = await runCli(workspace, ['pages'], env);
+      assert.equal(first.code, 0, first.stderr);
+      assert.equal(server.requests.length, 4);
+      assert.match(first.stdout, /created 4, updated 0, unchanged 0/);
+
+      const virtualizationPage = await readText(path.join(workspace, 'source/tags/虚拟化/index.md'));
+      assert.match(virtualizationPage, /^title: 虚拟化$/m);
+      assert.match(virtualizationPage, /虚拟化 标签收录了相关的折腾记录。/);
+      const k8sLine = virtualizationPage.indexOf('2024-01-02 · {% post_link k8s-intro "K8s 入门" %}');
+      const hypervLine = virtualizationPage.indexOf('2022-11-12 · {% post_link 虚拟化/折腾Hyper-V嵌套虚拟化 "折腾Hyper-V嵌套虚拟化来运行PVE" %}');
+      assert.ok(k8sLine !== -1 && hypervLine > k8sLine, virtualizationPage);
+      assert.match(virtualizationPage, /- \[Hyper-V\]\(\.\.\/Hyper-V\/\) \(1\)/);
+
+      const second = await runCli(workspace, ['pages'], env);
+      assert.equal(second.code, 0, second.stderr);
+      assert.equal(server.requests.length, 4);
+      assert.match(second.stdout, /unchanged 4/);
+
+      const hypervPagePath = path.join(workspace, 'source/tags/Hyper-V/index.md');
+      const edited = (await readText(hypervPagePath))
+        .replace('Hyper-V 标签收录了相关的折腾记录。', '手写的 Hyper-V 介绍。')
+        .concat('\n自定义的段落。\n');
+      await fs.writeFile(hypervPagePath, edited, 'utf8');
+      const postPath = path.join(workspace, hyperv);
+      const post = await readText(postPath);
+      await fs.writeFile(postPath, post.replace('title: 折腾Hyper-V嵌套虚拟化来运行PVE', 'title: Hyper-V 嵌套虚拟化'), 'utf8');
+
+      const third = await runCli(workspace, ['pages'], env);
+      assert.equal(third.code, 0, third.stderr);
+      assert.match(third.stdout, /created 0, updated 3, unchanged 1/);
+      // Hyper-V 的简介已被手动修改，只需为 PVE 与 虚拟化 重新生成
+      assert.equal(server.requests.length, 6);
+      const hypervPage = await readText(hypervPagePath);
+      assert.match(hypervPage, /手写的 Hyper-V 介绍。/);
+      assert.match(hypervPage, /自定义的段落。/);
+      assert.match(hypervPage, /\{% post_link 虚拟化\/折腾Hyper-V嵌套虚拟化 "Hyper-V 嵌套虚拟化" %\}/);
+      assert.doesNotMatch(hypervPage, /来运行PVE"/);
+
+      // 只改正文开头（即页面展示的摘要），同样需要刷新所属标签页
+      const k8sPath = path.join(workspace, 'source/_posts/k8s-intro.md');
+      const k8sPost = await readText(k8sPath);
+      await fs.writeFile(k8sPath, k8sPost.replace('使用 kind 在本地启动', '用 kind 在本机启动'), 'utf8');
+      const fourth = await runCli(workspace, ['pages'], env);
+      assert.equal(fourth.code, 0, fourth.stderr);
+      assert.match(fourth.stdout, /created 0, updated 2, unchanged 2/);
+      assert.match(await readText(path.join(workspace, 'source/tags/K8s/index.md')), /用 kind 在本机启动/);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+
+  it('gives tags that share a slug or have none their own page directory', async () => {
+    const server = await startMockServer({ respond: () => ({ content: '标签简介。' }) });
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_API_KEY: 'test-key', TAG_SYNC_BASE_URL: server.url };
+      await fs.writeFile(
+        path.join(workspace, 'tags.json'),
+        JSON.stringify({ 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': ['C++', 'C#', 'C', '++'] }),
+        'utf8'
+      );
+      const first = await runCli(workspace, ['pages'], env);
+      assert.equal(first.code, 0, first.stderr);
+      assert.match(first.stdout, /created 4, updated 0/);
+      assert.match(first.stderr, /Tag "C\+\+" has an empty or shared slug/);
+
+      const pagesDir = path.join(workspace, 'source/tags');
+      const dirs = (await fs.readdir(pagesDir)).sort();
+      assert.equal(dirs.length, 4);
+      assert.ok(dirs.includes('C'));
+      assert.ok(dirs.every((dir) => dir === 'C' || /^(C|tag)-[0-9a-f]{8}$/.test(dir)), dirs.join(', '));
+      await assert.rejects(fs.access(path.join(pagesDir, 'index.md')));
+      assert.match(await readText(path.join(pagesDir, 'C', 'index.md')), /^title: C$/m);
+
+      const second = await runCli(workspace, ['pages'], env);
+      assert.equal(second.code, 0, second.stderr);
+      assert.match(second.stdout, /unchanged 4/);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('eval command', () => {
+  it('counts posts without output as empty predictions', () => {
+    const gold = { 'a.md': ['Rust', '音频处理'], 'b.md': ['Kubernetes', 'Docker'] };
+    const { metrics, posts } = scoreTags(gold, { 'a.md': ['Rust', '音频处理'] });
+    assert.deepEqual(metrics, { precision: 1, recall: 0.5, f1: 0.6667, avgTags: 1, newTagRate: 0 });
+    assert.deepEqual(posts['b.md'], { expected: ['Kubernetes', 'Docker'], predicted: [], missing: ['Kubernetes', 'Docker'], extra: [] });
+  });
+
+  it('scores each model config against a gold set without leaking it into the prompt', async () => {
+    const replies: Record<string, Record<string, string>> = {
+      'model-a': { 'K8s 入门': '["Kubernetes", "kind"]', '使用Rust描述音乐系统并模拟乐器演奏': '["音频处理"]' },
+      'model-b': { 'K8s 入门': '["Docker"]', '使用Rust描述音乐系统并模拟乐器演奏': '["Docker"]' }
+    };
+    const server = await startMockServer({
+      respond: (request) => {
+        const prompt = request.body.messages?.[1]?.content ?? '';
+        const title = /文章标题：(.+)/.exec(prompt)?.[1] ?? '';
+        const content = replies[String(request.body.model)]?.[title];
+        return content ? { content } : { status: 500, body: 'unexpected request' };
+      }
+    });
+    const workspace = await copyFixture('blog');
+    try {
+      const k8s = 'source/_posts/k8s-intro.md';
+      const rust = 'source/_posts/Rust/使用Rust描述音乐系统.md';
+      await fs.writeFile(
+        path.join(workspace, 'gold.json'),
+        JSON.stringify({ [k8s]: ['K8s', 'Kubernetes', 'kind'], [rust]: ['Rust', '音频处理'] }),
+        'utf8'
+      );
+      await fs.writeFile(
+        path.join(workspace, 'eval.json'),
+        JSON.stringify([
+          { name: 'a', model: 'model-a' },
+          { name: 'b', model: 'model-b' }
+        ]),
+        'utf8'
+      );
+      const env = {
+        TAG_SYNC_API_KEY: 'test-key',
+        TAG_SYNC_BASE_URL: server.url,
+        TAG_SYNC_CACHE: 'false',
+        // 评估时忽略会改写模型输出的合并选项
+        TAG_SYNC_STRICT_VOCABULARY: 'true',
+        TAG_SYNC_PRUNE: 'true',
+        TAG_SYNC_MAX_TAGS: '1'
+      };
+      const result = await runCli(workspace, ['eval', '--gold=gold.json', '--configs=eval.json', '--output=report.json'], env);
+      assert.equal(result.code, 0, result.stderr);
+      assert.equal(server.requests.length, 4);
+      assert.ok(server.requests.every((request) => /Front-matter 标签：（无）\n历史标签（tags\.json）：（无）\n全站已有标签（按使用频次排序）：（无）/.test(request.body.messages?.[1]?.content ?? '')));
+      assert.match(result.stdout, /Evaluated 2 posts against gold\.json/);
+      assert.match(result.stdout, /^a +model-a +1 +1\.000 +0\.600 +0\.750 +1\.50 +0\.0% +0$/m);
+
+      const report = await readJson<{
+        variants: Array<{ name: string; metrics: Record<string, number>; posts: Record<string, { missing: string[]; extra: string[] }> }>;
+      }>(path.join(workspace, 'report.json'));
+      const [a, b] = report.variants;
+      assert.deepEqual(a.metrics, { precision: 1, recall: 0.6, f1: 0.75, avgTags: 1.5, newTagRate: 0 });
+      assert.equal(b.name, 'b');
+      assert.deepEqual(b.metrics, { precision: 0, recall: 0, f1: 0, avgTags: 1, newTagRate: 1 });
+      assert.deepEqual(b.posts[k8s].missing, ['K8s', 'Kubernetes', 'kind']);
+      assert.deepEqual(b.posts[k8s].extra, ['Docker']);
+      // 评估不会改动 tags.json
+      assert.deepEqual(Object.keys(await readJson(path.join(workspace, 'tags.json'))), ['source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md']);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('crash-safe writes', () => {
+  it('refuses to run on a corrupt tags.json instead of treating it as empty', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const tagsPath = path.join(workspace, 'tags.json');
+      const truncated = '{\n  "source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md": [\n    "Hyper-V",';
+      await fs.writeFile(tagsPath, truncated, 'utf8');
+
+      const result = await runCli(workspace, ['import']);
+      assert.equal(result.code, 1);
+      assert.match(result.stdout + result.stderr, /Failed to parse tags\.json/);
+      assert.doesNotMatch(result.stdout + result.stderr, /\.bak/);
+      assert.equal(await readText(tagsPath), truncated);
+
+      await fs.writeFile(`${tagsPath}.bak`, '{}', 'utf8');
+      const withBackup = await runCli(workspace, ['import']);
+      assert.equal(withBackup.code, 1);
+      assert.match(withBackup.stdout + withBackup.stderr, /restore it from tags\.json\.bak/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('rotates .bak copies before replacing tags.json and leaves no temp files', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const tagsPath = path.join(workspace, 'tags.json');
+      const original = await readText(tagsPath);
+
+      const first = await runCli(workspace, ['import', '--backups=2']);
+      assert.equal(first.code, 0, first.stderr);
+      assert.equal(await readText(`${tagsPath}.bak`), original);
+      const imported = await readText(tagsPath);
+
+      const second = await runCli(workspace, ['import', '--overwrite', '--backups=2']);
+      assert.equal(second.code, 0, second.stderr);
+      assert.equal(await readText(`${tagsPath}.bak`), imported);
+      assert.equal(await readText(`${tagsPath}.bak.1`), original);
+
+      const leftovers = (await fs.readdir(workspace)).filter((name) => name.endsWith('.tmp'));
+      assert.deepEqual(leftovers, []);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('keeps the file mode and writes through symlinks', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const realPath = path.join(workspace, 'data', 'tags.json');
+      const linkPath = path.join(workspace, 'tags.json');
+      await fs.mkdir(path.dirname(realPath), { recursive: true });
+      await fs.rename(linkPath, realPath);
+      await fs.chmod(realPath, 0o640);
+      await fs.symlink(path.join('data', 'tags.json'), linkPath);
+
+      const result = await runCli(workspace, ['import', '--overwrite', '--backups=0']);
+      assert.equal(result.code, 0, result.stderr);
+      assert.ok((await fs.lstat(linkPath)).isSymbolicLink());
+      assert.equal((await fs.stat(realPath)).mode & 0o777, 0o640);
+      assert.ok((await readJson<Record<string, string[]>>(realPath))['source/_posts/k8s-intro.md']);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('dry-run diff output', () => {
+  it('renders tags.json and front-matter changes as text, JSON and Markdown', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const hyperv = 'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md';
+      const text = await runCli(workspace, ['import', '--overwrite', '--dry-run']);
+      assert.equal(text.code, 0, text.stderr);
+      assert.match(text.stdout, new RegExp(`~ ${hyperv}\n  - Hyper-V\n  - PVE\n {4}虚拟化\n`));
+      assert.match(text.stdout, /\+ source\/_posts\/k8s-intro\.md\n {2}\+ K8s\n/);
+
+      const json = await runCli(workspace, ['import', '--dry-run', '--diff-format=json', '--diff-file=diff.json']);
+      assert.equal(json.code, 0, json.stderr);
+      const report = await readJson<{ summary: { created: number; updated: number }; entries: Array<{ path: string; added: string[] }> }>(
+        path.join(workspace, 'diff.json')
+      );
+      assert.deepEqual(report.summary.created, 2);
+      assert.deepEqual(report.summary.updated, 1);
+      assert.deepEqual(report.entries.find((entry) => entry.path === hyperv)?.added, []);
+
+      const markdown = await runCli(workspace, ['apply', '--dry-run', '--diff-format=markdown']);
+      assert.equal(markdown.code, 0, markdown.stderr);
+      assert.match(markdown.stdout, /### Front-matter tag changes/);
+      assert.match(markdown.stdout, new RegExp(`\\| \`${hyperv}\` \\| updated \\| \`Hyper-V\` \`PVE\` \\| {2}\\|`));
+      assert.match(await readText(path.join(workspace, hyperv)), /tags: 虚拟化/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('LLM failure handling', () => {
+  const env = (url: string): Record<string, string> => ({
+    TAG_SYNC_API_KEY: 'test-key',
+    TAG_SYNC_BASE_URL: url,
+    TAG_SYNC_FILTER: 'k8s-intro'
+  });
+
+  it('retries after an HTTP error and persists the successful attempt', async () => {
+    const server = await startMockServer({
+      replies: [{ status: 500, body: 'upstream down' }, { content: '["Kubernetes"]' }]
+    });
+    const workspace = await copyFixture('blog');
+    try {
+      const result = await runCli(workspace, ['generate'], env(server.url));
+      assert.equal(result.code, 0, result.stderr);
+      assert.equal(server.requests.length, 2);
+      const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+      assert.deepEqual(tags['source/_posts/k8s-intro.md'], ['K8s', 'Kubernetes']);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+
+  it('does not persist posts whose every attempt returned malformed JSON', async () => {
+    const server = await startMockServer({ fallback: { raw: '{"choices": [' } });
+    const workspace = await copyFixture('blog');
+    try {
+      const result = await runCli(workspace, ['generate'], env(server.url));
+      assert.equal(result.code, 0, result.stderr);
+      assert.equal(server.requests.length, 3);
+      const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+      assert.equal(tags['source/_posts/k8s-intro.md'], undefined);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+
+  it('treats slow responses beyond the timeout as failures', async () => {
+    const server = await startMockServer({ fallback: { delayMs: 1500, content: '["Kubernetes"]' } });
+    const workspace = await copyFixture('blog');
+    try {
+      const result = await runCli(workspace, ['generate'], { ...env(server.url), TAG_SYNC_TIMEOUT: '1' });
+      assert.equal(result.code, 0, result.stderr);
+      assert.match(result.stdout + result.stderr, /failed after 3 attempts/);
+      const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+      assert.equal(tags['source/_posts/k8s-intro.md'], undefined);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+});
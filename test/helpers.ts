@@ -0,0 +1,74 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export const FIXTURE_ROOT = path.join(__dirname, 'fixtures');
+const CLI_ENTRY = path.resolve(__dirname, '..', 'src', 'index.ts');
+const TSX_CLI = require.resolve('tsx/cli');
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+export async function copyFixture(name: string): Promise<string> {
+  const target = await fs.mkdtemp(path.join(os.tmpdir(), `tag-sync-${name}-`));
+  await fs.cp(path.join(FIXTURE_ROOT, name), target, { recursive: true });
+  return target;
+}
+
+export async function removeDir(dir: string): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+function cleanEnv(extra: Record<string, string>): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith('TAG_SYNC_') || /^(https?|all)_proxy$/i.test(key)) continue;
+    env[key] = value;
+  }
+  return { ...env, ...extra };
+}
+
+/**
+ * 在指定工作区内以子进程方式运行 CLI（异步执行，避免阻塞同进程内的 mock 服务）。
+ * 传入 `input` 时写入子进程标准输入，用于驱动交互命令。
+ */
+export function runCli(cwd: string, args: string[], env: Record<string, string> = {}, input?: string): Promise<CliResult> {
+  return new Promise((resolve) => {
+    const child = execFile(
+      process.execPath,
+      [TSX_CLI, CLI_ENTRY, ...args],
+      { cwd, env: cleanEnv(env), timeout: 60_000 },
+      (error, stdout, stderr) => {
+        const code = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+        resolve({ code, stdout, stderr });
+      }
+    );
+    child.stdin?.end(input ?? '');
+  });
+}
+
+/**
+ * 在指定目录执行 git 命令，提交时使用固定的作者信息，避免依赖全局配置。
+ */
+export function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['-c', 'user.name=Tag Sync', '-c', 'user.email=tag-sync@example.com', '-c', 'commit.gpgsign=false', ...args],
+      { cwd },
+      (error, stdout, stderr) => (error ? reject(new Error(`${error.message}\n${stderr}`)) : resolve(stdout))
+    );
+  });
+}
+
+export async function readText(filePath: string): Promise<string> {
+  return fs.readFile(filePath, 'utf8');
+}
+
+export async function readJson<T>(filePath: string): Promise<T> {
+  return JSON.parse(await readText(filePath)) as T;
+}
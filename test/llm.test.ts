@@ -0,0 +1,266 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { parseRemovedTags, parseScoredTags, parseTagsFromContent } from '../src/llm';
+import { MockServerOptions, startMockServer } from '../src/mock-server';
+import { renderTemplate } from '../src/prompts';
+import { TagScoresMap } from '../src/types';
+import { copyFixture, readJson, removeDir, runCli } from './helpers';
+
+describe('parseTagsFromContent', () => {
+  it('parses bare arrays, tag objects and arrays embedded in prose', () => {
+    assert.deepEqual(parseTagsFromContent('["Rust", " 音频 "]'), ['Rust', '音频']);
+    assert.deepEqual(parseTagsFromContent('{"tags": ["Rust"]}'), ['Rust']);
+    assert.deepEqual(parseTagsFromContent('推荐：["Rust", "cpal"]，供参考。'), ['Rust', 'cpal']);
+  });
+
+  it('returns null when nothing can be parsed', () => {
+    assert.equal(parseTagsFromContent(''), null);
+    assert.equal(parseTagsFromContent('这篇文章写得很好。'), null);
+    assert.equal(parseTagsFromContent('["unterminated"'), null);
+  });
+});
+
+describe('parseScoredTags', () => {
+  it('reads confidence and reason from tag objects', () => {
+    assert.deepEqual(
+      parseScoredTags('{"tags": [{"tag": "Kubernetes", "confidence": 0.92, "reason": "主题"}, {"tag": "kind", "confidence": "1.4"}, "Docker"]}'),
+      [{ tag: 'Kubernetes', confidence: 0.92, reason: '主题' }, { tag: 'kind', confidence: 1 }, { tag: 'Docker' }]
+    );
+    assert.deepEqual(parseTagsFromContent('[{"tag": "Rust", "confidence": 0.8}]'), ['Rust']);
+  });
+
+  it('reads tags and removals from a prune answer wrapped in prose', () => {
+    const content = '结果如下：{"tags": ["Rust"], "remove": ["随笔"]}';
+    assert.deepEqual(parseTagsFromContent(content), ['Rust']);
+    assert.deepEqual(parseRemovedTags(content), ['随笔']);
+    assert.deepEqual(parseRemovedTags('["Rust"]'), []);
+  });
+});
+
+async function generateK8s(options: MockServerOptions, extraEnv: Record<string, string> = {}) {
+  const server = await startMockServer(options);
+  const workspace = await copyFixture('blog');
+  try {
+    const result = await runCli(workspace, ['generate'], {
+      TAG_SYNC_API_KEY: 'test-key',
+      TAG_SYNC_BASE_URL: server.url,
+      TAG_SYNC_FILTER: 'k8s-intro',
+      ...extraEnv
+    });
+    assert.equal(result.code, 0, result.stderr);
+    const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+    const scores = await readJson<TagScoresMap>(path.join(workspace, 'tags.scores.json')).catch(() => ({}) as TagScoresMap);
+    return { requests: server.requests, tags: tags['source/_posts/k8s-intro.md'], scores: scores['source/_posts/k8s-intro.md'] };
+  } finally {
+    await server.close();
+    await removeDir(workspace);
+  }
+}
+
+describe('structured output', () => {
+  it('retries when a chatty answer contains no tags', async () => {
+    const { requests, tags } = await generateK8s({
+      replies: [{ content: '这是一篇关于容器编排的好文章。' }, { content: '["Kubernetes"]' }]
+    });
+    assert.equal(requests.length, 2);
+    assert.deepEqual(tags, ['K8s', 'Kubernetes']);
+  });
+
+  it('sends a JSON schema and falls back to plain text when the provider rejects it', async () => {
+    const { requests, tags } = await generateK8s(
+      {
+        respond: (request) =>
+          request.body.response_format
+            ? { status: 400, body: '{"error":{"message":"response_format is not supported"}}' }
+            : { content: '["Kubernetes"]' }
+      },
+      { TAG_SYNC_RESPONSE_FORMAT: 'json_schema' }
+    );
+    assert.equal(requests.length, 2);
+    assert.equal((requests[0].body.response_format as { type: string }).type, 'json_schema');
+    assert.equal(requests[1].body.response_format, undefined);
+    assert.deepEqual(tags, ['K8s', 'Kubernetes']);
+  });
+
+  it('does not cache plain text fallbacks under the structured output key', async () => {
+    let rejectStructured = true;
+    const server = await startMockServer({
+      respond: (request) =>
+        request.body.response_format && rejectStructured
+          ? { status: 400, body: '{"error":{"message":"response_format is not supported"}}' }
+          : { content: request.body.response_format ? '{"tags": ["Kubernetes"]}' : '["kind"]' }
+    });
+    const workspace = await copyFixture('blog');
+    try {
+      const env = {
+        TAG_SYNC_API_KEY: 'test-key',
+        TAG_SYNC_BASE_URL: server.url,
+        TAG_SYNC_FILTER: 'k8s-intro',
+        TAG_SYNC_RESPONSE_FORMAT: 'json_schema'
+      };
+      const tagsPath = path.join(workspace, 'tags.json');
+      const original = await fs.readFile(tagsPath, 'utf8');
+      const fallback = await runCli(workspace, ['generate'], env);
+      assert.equal(fallback.code, 0, fallback.stderr);
+      assert.equal(server.requests.length, 2);
+
+      // 还原 tags.json，使第二次请求的 prompt 与第一次完全相同
+      await fs.writeFile(tagsPath, original, 'utf8');
+      rejectStructured = false;
+      const structured = await runCli(workspace, ['generate'], env);
+      assert.equal(structured.code, 0, structured.stderr);
+      assert.equal(server.requests.length, 3);
+      assert.equal((server.requests[2].body.response_format as { type: string }).type, 'json_schema');
+      const tags = await readJson<Record<string, string[]>>(tagsPath);
+      assert.deepEqual(tags['source/_posts/k8s-intro.md'], ['K8s', 'Kubernetes']);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+
+  it('reads tags from tool call arguments', async () => {
+    const { requests, tags } = await generateK8s(
+      { replies: [{ toolCall: { name: 'submit_tags', arguments: '{"tags":["Kubernetes","kind"]}' } }] },
+      { TAG_SYNC_RESPONSE_FORMAT: 'tool' }
+    );
+    assert.equal(requests.length, 1);
+    assert.ok(Array.isArray(requests[0].body.tools));
+    assert.deepEqual(tags, ['K8s', 'kind', 'Kubernetes']);
+  });
+
+  it('asks for scored tags and drops low-confidence suggestions', async () => {
+    const reply = JSON.stringify([
+      { tag: 'Kubernetes', confidence: 0.9, reason: '文章主题是 Kubernetes 集群' },
+      { tag: '容器', confidence: 0.3, reason: '只是顺带提及' }
+    ]);
+    const dropped = await generateK8s({ replies: [{ content: reply }] }, { TAG_SYNC_TAG_SCORES: 'true' });
+    assert.match(dropped.requests[0].body.messages?.[1]?.content ?? '', /"confidence": 0\.9/);
+    assert.deepEqual(dropped.tags, ['K8s', 'Kubernetes']);
+    assert.deepEqual(dropped.scores, [{ tag: 'Kubernetes', confidence: 0.9, reason: '文章主题是 Kubernetes 集群' }]);
+
+    const flagged = await generateK8s(
+      { replies: [{ content: reply }] },
+      { TAG_SYNC_TAG_SCORES: 'true', TAG_SYNC_LOW_CONFIDENCE: 'flag' }
+    );
+    assert.deepEqual(flagged.tags, ['容器', 'K8s', 'Kubernetes']);
+    assert.deepEqual(flagged.scores?.[0], { tag: '容器', confidence: 0.3, reason: '只是顺带提及', flagged: true });
+  });
+
+  it('asks which existing tags to remove in prune mode', async () => {
+    const { requests, tags } = await generateK8s(
+      { replies: [{ content: '{"tags": ["Kubernetes", "kind"], "remove": ["K8s"]}' }] },
+      { TAG_SYNC_PRUNE: 'true', TAG_SYNC_MIN_KEPT_TAGS: '0', TAG_SYNC_RESPONSE_FORMAT: 'json_schema' }
+    );
+    const schema = (requests[0].body.response_format as { json_schema: { schema: { required: string[] } } }).json_schema.schema;
+    assert.deepEqual(schema.required, ['tags', 'remove']);
+    assert.match(requests[0].body.messages?.[1]?.content ?? '', /remove/);
+    assert.deepEqual(tags, ['kind', 'Kubernetes']);
+  });
+
+  it('accepts a prune answer that only removes existing tags', async () => {
+    const { requests, tags } = await generateK8s(
+      { replies: [{ content: '{"tags": [], "remove": ["K8s"]}' }, { content: '["Kubernetes"]' }] },
+      { TAG_SYNC_PRUNE: 'true', TAG_SYNC_MIN_KEPT_TAGS: '0' }
+    );
+    assert.equal(requests.length, 1);
+    assert.deepEqual(tags, []);
+  });
+});
+
+describe('prompt templates', () => {
+  it('renders the built-in prompt for a post without calling the model', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const result = await runCli(workspace, ['prompt', 'render', 'k8s-intro'], { TAG_SYNC_API_KEY: 'test-key' });
+      assert.equal(result.code, 0, result.stderr);
+      assert.match(result.stdout, /^# source\/_posts\/k8s-intro\.md \(prompt version 1, built-in\)/);
+      assert.match(result.stdout, /\[system\]\n你是一个优秀的中文技术标签生成器。/);
+      assert.match(result.stdout, /文章标题：K8s 入门\nFront-matter 标签：K8s\n历史标签（tags\.json）：（无）/);
+      assert.match(result.stdout, /全站已有标签（按使用频次排序）：虚拟化, Hyper-V, PVE/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('uses TAG_SYNC_PROMPT_FILE for requests and records its version', async () => {
+    const server = await startMockServer({ replies: [{ content: '["Kubernetes"]' }] });
+    const workspace = await copyFixture('blog');
+    try {
+      await fs.writeFile(
+        path.join(workspace, 'prompt.json'),
+        JSON.stringify({
+          version: 'short-v2',
+          system: 'You tag blog posts.',
+          user: ['Title: {{title}}', 'Existing: {{tags}}', '{{content}}', 'Answer in {{language}} as {{outputFormat}}.']
+        }),
+        'utf8'
+      );
+      const env = {
+        TAG_SYNC_API_KEY: 'test-key',
+        TAG_SYNC_BASE_URL: server.url,
+        TAG_SYNC_PROMPT_FILE: 'prompt.json',
+        TAG_SYNC_RESPONSE_FORMAT: 'text'
+      };
+      const rendered = await runCli(workspace, ['prompt', 'render', 'source/_posts/k8s-intro.md', '--format=json'], env);
+      assert.equal(rendered.code, 0, rendered.stderr);
+      const output = JSON.parse(rendered.stdout) as { version: string; prompts: { messages: unknown[] }[] };
+      assert.equal(output.version, 'short-v2');
+
+      const result = await runCli(workspace, ['generate', '--filter=k8s-intro'], env);
+      assert.equal(result.code, 0, result.stderr);
+      assert.deepEqual(server.requests[0].body.messages, output.prompts[0].messages);
+      assert.equal(
+        server.requests[0].body.messages?.[1]?.content,
+        'Title: K8s 入门\nExisting: K8s\n\n使用 kind 在本地启动一个 Kubernetes 集群，并部署 Docker 镜像。\n\nAnswer in 中文 as JSON 数组，例如 ["标签1", "Tag2"].'
+      );
+      const state = await readJson<Record<string, { promptVersion: string }>>(path.join(workspace, 'tags.state.json'));
+      assert.equal(state['source/_posts/k8s-intro.md'].promptVersion, 'short-v2');
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+
+  it('numbers extra rules after the last numbered line of the template', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_TAG_SCORES: 'true', TAG_SYNC_PRUNE: 'true' };
+      const builtIn = await runCli(workspace, ['prompt', 'render', 'k8s-intro'], env);
+      assert.equal(builtIn.code, 0, builtIn.stderr);
+      assert.match(builtIn.stdout, /\n5\. 输出采用.*\n6\. confidence 为.*\n7\. 若 Front-matter/);
+
+      const templates = {
+        'numbered.json': { user: ['{{content}}', '1. 输出 {{outputFormat}}。', '2. 使用 {{language}}。{{extraRules}}'] },
+        'plain.json': { user: ['{{content}}', '输出 {{outputFormat}}。{{extraRules}}'] }
+      };
+      for (const [name, template] of Object.entries(templates)) {
+        await fs.writeFile(path.join(workspace, name), JSON.stringify(template), 'utf8');
+      }
+      const numbered = await runCli(workspace, ['prompt', 'render', 'k8s-intro'], { ...env, TAG_SYNC_PROMPT_FILE: 'numbered.json' });
+      assert.match(numbered.stdout, /\n2\. 使用 中文。\n3\. confidence 为.*\n4\. 若 Front-matter/);
+      const plain = await runCli(workspace, ['prompt', 'render', 'k8s-intro'], { ...env, TAG_SYNC_PROMPT_FILE: 'plain.json' });
+      assert.match(plain.stdout, /。\n- confidence 为.*\n- 若 Front-matter/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+
+  it('leaves placeholders named after Object prototype keys untouched', () => {
+    assert.equal(renderTemplate('{{constructor}} {{toString}} {{title}}', { title: 'Rust' }), '{{constructor}} {{toString}} Rust');
+  });
+
+  it('rejects templates with unknown variables', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      await fs.writeFile(path.join(workspace, 'prompt.json'), JSON.stringify({ user: '{{title}} {{body}}' }), 'utf8');
+      const result = await runCli(workspace, ['prompt', 'render', 'k8s-intro'], { TAG_SYNC_PROMPT_FILE: 'prompt.json' });
+      assert.equal(result.code, 1);
+      assert.match(result.stderr, /Unknown variable \{\{body\}\} in "user"/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { MockServer, MockServerOptions, startMockServer } from '../src/mock-server';
+import { copyFixture, readJson, removeDir, runCli } from './helpers';
+
+async function generateWith(
+  options: MockServerOptions,
+  env: (server: MockServer) => Record<string, string>
+): Promise<{ server: MockServer; tags: string[] | undefined }> {
+  const server = await startMockServer(options);
+  const workspace = await copyFixture('blog');
+  try {
+    const result = await runCli(workspace, ['generate'], { TAG_SYNC_FILTER: 'k8s-intro', ...env(server) });
+    assert.equal(result.code, 0, result.stderr);
+    const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+    return { server, tags: tags['source/_posts/k8s-intro.md'] };
+  } finally {
+    await server.close();
+    await removeDir(workspace);
+  }
+}
+
+describe('provider backends', () => {
+  it('talks to the Anthropic Messages API', async () => {
+    const { server, tags } = await generateWith({ replies: [{ content: '["Kubernetes", "kind"]' }] }, (mock) => ({
+      TAG_SYNC_PROVIDER: 'anthropic',
+      TAG_SYNC_API_KEY: 'anthropic-key',
+      TAG_SYNC_BASE_URL: mock.url,
+      TAG_SYNC_EXTRA_HEADERS: '{"X-Trace":"e2e"}'
+    }));
+    const [request] = server.requests;
+    assert.equal(request.flavor, 'anthropic');
+    assert.equal(request.headers['x-api-key'], 'anthropic-key');
+    assert.equal(request.headers.authorization, undefined);
+    assert.equal(request.headers['x-trace'], 'e2e');
+    assert.equal(request.body.model, 'claude-3-5-haiku-latest');
+    assert.equal(typeof request.body.system, 'string');
+    assert.deepEqual(
+      request.body.messages?.map((message) => message.role),
+      ['user']
+    );
+    assert.deepEqual(tags, ['K8s', 'kind', 'Kubernetes']);
+  });
+
+  it('reads Anthropic tool_use input in tool mode', async () => {
+    const { server, tags } = await generateWith(
+      { replies: [{ toolCall: { name: 'submit_tags', arguments: '{"tags":["Kubernetes"]}' } }] },
+      (mock) => ({
+        TAG_SYNC_PROVIDER: 'anthropic',
+        TAG_SYNC_API_KEY: 'anthropic-key',
+        TAG_SYNC_BASE_URL: mock.url,
+        TAG_SYNC_RESPONSE_FORMAT: 'tool'
+      })
+    );
+    assert.deepEqual(server.requests[0].body.tool_choice, { type: 'tool', name: 'submit_tags' });
+    assert.deepEqual(tags, ['K8s', 'Kubernetes']);
+  });
+
+  it('talks to Ollama without an API key and retries failures', async () => {
+    const { server, tags } = await generateWith(
+      { replies: [{ status: 503, body: 'loading model' }, { content: '{"tags": ["Kubernetes"]}' }] },
+      (mock) => ({
+        TAG_SYNC_PROVIDER: 'ollama',
+        TAG_SYNC_BASE_URL: mock.origin,
+        TAG_SYNC_MODEL: 'qwen2.5:7b',
+        TAG_SYNC_RESPONSE_FORMAT: 'json_object'
+      })
+    );
+    assert.equal(server.requests.length, 2);
+    const [request] = server.requests;
+    assert.equal(request.flavor, 'ollama');
+    assert.equal(request.headers.authorization, undefined);
+    assert.equal(request.body.stream, false);
+    assert.equal(request.body.format, 'json');
+    assert.deepEqual(tags, ['K8s', 'Kubernetes']);
+  });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { startMockServer } from '../src/mock-server';
+import { DEFAULT_PROMPT_TEMPLATE } from '../src/prompts';
+import { buildPostState, detectChange, resolvePromptVersion } from '../src/state';
+import { LoadedPost } from '../src/types';
+import { copyFixture, readJson, removeDir, runCli } from './helpers';
+
+function makePost(content: string): LoadedPost {
+  return {
+    absolutePath: '/blog/source/_posts/a.md',
+    relativePath: 'source/_posts/a.md',
+    title: 'A',
+    frontMatterTags: [],
+    frontMatter: {},
+    frontMatterRaw: '',
+    content,
+    excerpt: content
+  };
+}
+
+describe('detectChange', () => {
+  it('reports missing state, content changes and prompt version changes', () => {
+    const post = makePost('正文');
+    const previous = buildPostState(post, 'gpt-4o-mini', '1');
+    assert.equal(detectChange(post, undefined, '1'), 'no recorded state');
+    assert.equal(detectChange(post, previous, '1'), null);
+    assert.equal(detectChange(makePost('改过的正文'), previous, '1'), 'content changed');
+    assert.equal(detectChange(post, previous, '2'), 'prompt version 1 -> 2');
+  });
+
+  it('folds output settings into the recorded prompt version', () => {
+    const base = { promptTemplate: DEFAULT_PROMPT_TEMPLATE, responseFormat: 'text' as const, tagScores: false, prune: false };
+    assert.equal(resolvePromptVersion(base), '1');
+    assert.equal(
+      resolvePromptVersion({ ...base, responseFormat: 'json_schema', tagScores: true, prune: true }),
+      '1+json_schema+scores+prune'
+    );
+  });
+});
+
+describe('generate --changed', () => {
+  const k8s = 'source/_posts/k8s-intro.md';
+
+  it('regenerates only posts whose content or prompt version changed', async () => {
+    const server = await startMockServer({ respond: () => ({ content: '{"tags": ["Kubernetes"]}' }) });
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_API_KEY: 'test-key', TAG_SYNC_BASE_URL: server.url, TAG_SYNC_CACHE: 'false' };
+      const full = await runCli(workspace, ['generate', '--full'], env);
+      assert.equal(full.code, 0, full.stderr);
+      assert.equal(server.requests.length, 3);
+
+      const unchanged = await runCli(workspace, ['generate', '--changed'], env);
+      assert.equal(unchanged.code, 0, unchanged.stderr);
+      assert.equal(server.requests.length, 3);
+      assert.match(unchanged.stdout, /Skipping 3 unchanged posts/);
+
+      const postPath = path.join(workspace, k8s);
+      await fs.writeFile(postPath, `${await fs.readFile(postPath, 'utf8')}\n补充一段关于 Helm 的内容。\n`, 'utf8');
+      const edited = await runCli(workspace, ['generate', '--changed'], env);
+      assert.equal(edited.code, 0, edited.stderr);
+      assert.equal(server.requests.length, 4);
+      assert.match(server.requests[3].body.messages?.[1]?.content ?? '', /文章标题：K8s 入门/);
+
+      const reformatted = await runCli(workspace, ['generate', '--changed'], { ...env, TAG_SYNC_RESPONSE_FORMAT: 'json_object' });
+      assert.equal(reformatted.code, 0, reformatted.stderr);
+      assert.equal(server.requests.length, 7);
+      const state = await readJson<Record<string, { promptVersion: string }>>(path.join(workspace, 'tags.state.json'));
+      assert.equal(state[k8s].promptVersion, '1+json_object');
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+
+  it('refuses to run on a corrupt state file instead of regenerating everything', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      for (const [content, message] of [
+        ['{"source/_posts/k8s-intro.md": {', /Failed to parse state file/],
+        ['[]', /must be an object of post path -> generation state/]
+      ] as const) {
+        await fs.writeFile(path.join(workspace, 'tags.state.json'), content, 'utf8');
+        const result = await runCli(workspace, ['generate', '--changed'], {
+          TAG_SYNC_API_KEY: 'test-key',
+          TAG_SYNC_BASE_URL: 'http://127.0.0.1:9'
+        });
+        assert.equal(result.code, 1);
+        assert.match(result.stdout + result.stderr, message);
+      }
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
@@ -0,0 +1,319 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { renderMergeSuggestions, suggestTagMerges } from '../src/merge-suggestions';
+import { startMockServer } from '../src/mock-server';
+import { DEFAULT_PROMPT_TEMPLATE } from '../src/prompts';
+import { lintTaxonomy } from '../src/taxonomy-lint';
+import {
+  buildAliasLookup,
+  classifyTagPaths,
+  classifyTags,
+  countTagUsage,
+  limitVocabulary,
+  mergeTags,
+  resolveAlias,
+  resolvePostCategories
+} from '../src/taxonomy';
+import { estimateTokens } from '../src/tokens';
+import { TaxonomyRules } from '../src/types';
+import { copyFixture, FIXTURE_ROOT, readJson, readText, removeDir, runCli } from './helpers';
+
+async function loadRules(): Promise<TaxonomyRules> {
+  return readJson<TaxonomyRules>(path.join(FIXTURE_ROOT, 'blog', 'taxonomy.json'));
+}
+
+describe('mergeTags', () => {
+  const base = { sortTags: false, taxonomyRules: null, tagAliases: buildAliasLookup({ Kubernetes: ['K8s', 'k8s集群'] }) };
+
+  it('rewrites aliases before deduplicating', () => {
+    const result = mergeTags(['k8s'], ['k8s集群', 'Docker'], ['Kubernetes'], base);
+    assert.deepEqual(result.tags, ['Kubernetes', 'Docker']);
+    assert.deepEqual(result.added, ['Docker']);
+    assert.deepEqual(result.aliased, [
+      { from: 'k8s', to: 'Kubernetes' },
+      { from: 'k8s集群', to: 'Kubernetes' }
+    ]);
+  });
+
+  it('does not resolve tags named after Object prototype keys', () => {
+    for (const tagAliases of [{}, base.tagAliases, buildAliasLookup({ constructor: ['__proto__'] })]) {
+      const result = mergeTags(['Constructor'], ['__proto__', 'toString'], [], { ...base, tagAliases });
+      assert.ok(result.tags.every((tag) => typeof tag === 'string' && !tag.includes('[native code]')), String(result.tags));
+    }
+    // normalizeTag 会把下划线视为空白，`__proto__` 归一为 `proto`
+    assert.deepEqual(mergeTags(['Constructor'], ['__proto__', 'toString'], [], base).tags, ['Constructor', 'proto', 'toString']);
+    assert.equal(resolveAlias('constructor', {}), 'constructor');
+    const custom = mergeTags(['__proto__'], ['Constructor'], [], { ...base, tagAliases: buildAliasLookup({ constructor: ['__proto__'] }) });
+    assert.deepEqual(custom.tags, ['constructor']);
+  });
+
+  it('rejects tags outside the vocabulary in strict mode', () => {
+    const strict = { ...base, strictVocabulary: true };
+    const result = mergeTags(['Rust'], ['Docker', 'Podman'], [], strict, ['Docker']);
+    assert.deepEqual(result.tags, ['Rust', 'Docker']);
+    assert.deepEqual(result.rejected, ['Podman']);
+
+    const allowed = mergeTags(['Rust'], ['Docker', 'Podman'], [], { ...strict, allowNewTags: true }, ['Docker']);
+    assert.deepEqual(allowed.rejected, []);
+  });
+});
+
+describe('mergeTags prune mode', () => {
+  const base = { sortTags: false, taxonomyRules: null, tagAliases: {}, prune: true, minKeptTags: 1 };
+
+  it('removes existing tags the model flags while keeping the minimum', () => {
+    const result = mergeTags(['Hexo'], ['Rust'], ['博客', 'Node.js'], base, [], { remove: ['node.js', 'Hexo', '博客'] });
+    assert.deepEqual(result.removed, ['博客', 'Node.js']);
+    assert.deepEqual(result.tags, ['Hexo', 'Rust']);
+    assert.deepEqual(mergeTags(['Hexo'], [], [], { ...base, prune: false }, [], { remove: ['Hexo'] }).removed, []);
+  });
+
+  it('caps the tag count, trimming new tags before existing ones', () => {
+    const capped = mergeTags(['A', 'B'], ['C', 'D'], [], { ...base, maxTags: 3 });
+    assert.deepEqual(capped.tags, ['A', 'B', 'C']);
+    assert.deepEqual(capped.removed, []);
+
+    const trimmed = mergeTags(['A', 'B', 'C'], ['D'], [], { ...base, maxTags: 2 });
+    assert.deepEqual(trimmed.tags, ['A', 'B']);
+    assert.deepEqual(trimmed.removed, ['C']);
+  });
+});
+
+describe('vocabulary', () => {
+  const tagsMap = {
+    'a.md': ['Rust', 'Docker', 'k8s'],
+    'b.md': ['docker', 'Kubernetes', 'Rust'],
+    'c.md': ['Docker', 'Rust', 'Rust'],
+    'd.md': ['虚拟化', 'Docker']
+  };
+
+  const aliases = buildAliasLookup({ Kubernetes: ['k8s'] });
+
+  it('ranks tags by usage, counting each post once and folding aliases', () => {
+    const usage = countTagUsage(tagsMap, aliases);
+    assert.deepEqual(
+      usage.map(({ tag, count }) => [tag, count]),
+      [
+        ['Docker', 4],
+        ['Rust', 3],
+        ['Kubernetes', 2],
+        ['虚拟化', 1]
+      ]
+    );
+  });
+
+  it('keeps the most used tags that fit the token budget', () => {
+    const usage = countTagUsage(tagsMap, aliases);
+    const cost = (tag: string) => estimateTokens(tag) + 1;
+    const budget = cost('Docker') + cost('Rust') + cost('Kubernetes') - 1;
+    assert.deepEqual(limitVocabulary(usage, budget), ['Docker', 'Rust']);
+    assert.deepEqual(limitVocabulary(usage, 0), []);
+    assert.deepEqual(limitVocabulary(usage, 10_000), usage.map((entry) => entry.tag));
+  });
+});
+
+describe('hierarchical taxonomy', () => {
+  it('classifies tags into the most specific category path', async () => {
+    const rules = await loadRules();
+    assert.deepEqual(classifyTagPaths(['Rust', 'Python', '音频处理', 'Docker', '随笔'], rules), {
+      Rust: ['编程语言', 'Rust'],
+      Python: ['编程语言'],
+      音频处理: ['多媒体', '音频'],
+      Docker: ['云原生'],
+      随笔: ['uncategorized']
+    });
+    assert.equal(classifyTags(['Rust'], rules).Rust, '编程语言 > Rust');
+  });
+
+  it('picks the category path hit by most tags as the primary category', async () => {
+    const rules = await loadRules();
+    const tags = ['Docker', 'kind', 'Kubernetes', 'Rust'];
+    assert.deepEqual(resolvePostCategories(tags, rules, 'primary'), [['云原生']]);
+    assert.deepEqual(resolvePostCategories(tags, rules, 'all'), [['云原生'], ['编程语言', 'Rust']]);
+  });
+
+  it('writes categories.json and Hexo categories front-matter', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const env = { TAG_SYNC_TAXONOMY_JSON: 'taxonomy.json' };
+      await fs.writeFile(
+        path.join(workspace, 'tags.json'),
+        JSON.stringify({
+          'source/_posts/Rust/使用Rust描述音乐系统.md': ['Rust', '十二平均律', '音频处理'],
+          'source/_posts/k8s-intro.md': ['Docker', 'Kubernetes'],
+          'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': ['Hyper-V', 'PVE', '虚拟化']
+        }),
+        'utf8'
+      );
+      const generate = await runCli(workspace, ['generate'], env);
+      assert.equal(generate.code, 0, generate.stderr);
+      assert.deepEqual(await readJson(path.join(workspace, 'categories.json')), {
+        'source/_posts/k8s-intro.md': [['云原生']],
+        'source/_posts/Rust/使用Rust描述音乐系统.md': [['编程语言', 'Rust'], ['多媒体', '音频']],
+        'source/_posts/虚拟化/折腾Hyper-V嵌套虚拟化.md': [['虚拟化']]
+      });
+
+      const preview = await runCli(workspace, ['apply', '--categories=primary', '--dry-run'], env);
+      assert.equal(preview.code, 0, preview.stderr);
+      assert.match(preview.stdout, /~ source\/_posts\/k8s-intro\.md\n(?: {2}[-+] .+\n)*? {2}\+ category: 云原生\n/);
+      assert.match(preview.stdout, / {2}\+ category: 多媒体 > 音频\n/);
+      assert.doesNotMatch(await readText(path.join(workspace, 'source/_posts/k8s-intro.md')), /categories:/);
+
+      const apply = await runCli(workspace, ['apply', '--categories=primary'], env);
+      assert.equal(apply.code, 0, apply.stderr);
+      const rust = await readText(path.join(workspace, 'source/_posts/Rust/使用Rust描述音乐系统.md'));
+      assert.match(rust, /categories:\n {2}- 多媒体\n {2}- 音频\n/);
+      const k8s = await readText(path.join(workspace, 'source/_posts/k8s-intro.md'));
+      assert.match(k8s, /categories:\n {2}- 云原生\n/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('taxonomy lint', () => {
+  it('reports overlaps, unused rules and uncategorized tags', () => {
+    const report = lintTaxonomy(
+      {
+        云原生: { includes: ['Docker'] },
+        容器: { pattern: 'docker' },
+        编程语言: { includes: ['Rust', 'Go'], children: { Go: { includes: ['Go'] } } },
+        数据库: { includes: ['PostgreSQL'], prioity: 1 }
+      },
+      ['Docker', 'Rust', 'Go', '随笔']
+    );
+    const codes = report.findings.map((finding) => `${finding.code}:${finding.rule}`);
+    assert.deepEqual(codes.sort(), ['overlap:云原生, 容器', 'schema:数据库', 'uncategorized:uncategorized', 'unused-rule:数据库']);
+    assert.equal(report.errors, 0);
+  });
+
+  it('reports schema errors and invalid patterns', () => {
+    const report = lintTaxonomy({ 损坏: { pattern: '(' }, 数据库: { includes: 'PostgreSQL' } }, ['Docker']);
+    assert.deepEqual(
+      report.findings.map((finding) => `${finding.level}:${finding.code}:${finding.rule}`),
+      ['error:invalid-pattern:损坏', 'error:schema:数据库']
+    );
+  });
+
+  it('exits non-zero when the taxonomy has problems', async () => {
+    const workspace = await copyFixture('blog');
+    try {
+      const clean = await runCli(workspace, ['taxonomy', 'lint', '--allow-warnings'], { TAG_SYNC_TAXONOMY_JSON: 'taxonomy.json' });
+      assert.equal(clean.code, 0, clean.stdout + clean.stderr);
+
+      await fs.writeFile(path.join(workspace, 'broken.json'), JSON.stringify({ 虚拟化: { pattern: 'Hyper-V|[' } }), 'utf8');
+      const broken = await runCli(workspace, ['taxonomy', 'lint', '--taxonomy=broken.json', '--format=json']);
+      assert.equal(broken.code, 1);
+      const report = JSON.parse(broken.stdout) as { errors: number; findings: Array<{ code: string }> };
+      assert.equal(report.errors, 1);
+      assert.ok(report.findings.some((finding) => finding.code === 'invalid-pattern'));
+
+      await fs.writeFile(path.join(workspace, 'array.json'), '[]', 'utf8');
+      const array = await runCli(workspace, ['taxonomy', 'lint', '--taxonomy=array.json', '--format=json']);
+      assert.equal(array.code, 1, array.stderr);
+      assert.ok((JSON.parse(array.stdout) as { findings: Array<{ code: string }> }).findings.some((finding) => finding.code === 'schema'));
+
+      await fs.writeFile(path.join(workspace, 'syntax.json'), '{ "虚拟化": ', 'utf8');
+      const syntax = await runCli(workspace, ['taxonomy', 'lint', '--taxonomy=syntax.json', '--format=json']);
+      assert.equal(syntax.code, 1, syntax.stderr);
+      assert.deepEqual(
+        (JSON.parse(syntax.stdout) as { findings: Array<{ code: string }> }).findings.map((finding) => finding.code),
+        ['invalid-json']
+      );
+
+      const missing = await runCli(workspace, ['taxonomy', 'lint', '--taxonomy=missing.json']);
+      assert.equal(missing.code, 1);
+      assert.match(missing.stderr, /Failed to read taxonomy rules/);
+    } finally {
+      await removeDir(workspace);
+    }
+  });
+});
+
+describe('tag merge suggestions', () => {
+  const tagsMap = {
+    'a.md': ['Docker Compose', 'Docker', 'Linux'],
+    'b.md': ['Docker Compose', 'Docker'],
+    'c.md': ['docker-compose', 'Docker'],
+    'd.md': ['Compose', 'Docker', 'Linux'],
+    'e.md': ['树莓派', 'Linux', '嵌入式'],
+    'f.md': ['RaspberryPi', 'Linux', '嵌入式'],
+    'g.md': ['Go', 'Git']
+  };
+
+  it('clusters spelling variants, contained words and tags sharing the same context', () => {
+    const clusters = suggestTagMerges(tagsMap, { minScore: 0.6 });
+    assert.deepEqual(
+      clusters.map((cluster) => [cluster.canonical, cluster.variants.map((variant) => variant.tag)]),
+      [
+        ['Docker Compose', ['Compose', 'docker-compose']],
+        ['RaspberryPi', ['树莓派']]
+      ]
+    );
+    assert.deepEqual(clusters[1].variants[0].posts, ['e.md']);
+    assert.deepEqual(JSON.parse(renderMergeSuggestions(clusters, 'aliases')), {
+      'Docker Compose': ['Compose', 'docker-compose'],
+      RaspberryPi: ['树莓派']
+    });
+  });
+
+  it('does not treat a tag as a variant of a longer name that only starts with it', () => {
+    const clusters = suggestTagMerges(
+      {
+        ...tagsMap,
+        'h.md': ['React', 'JavaScript', 'Webpack'],
+        'i.md': ['React Native', 'JavaScript', 'iOS'],
+        'j.md': ['Linux Kernel', '嵌入式', 'C']
+      },
+      { minScore: 0.6 }
+    );
+    const tags = clusters.flatMap((cluster) => [cluster.canonical, ...cluster.variants.map((variant) => variant.tag)]);
+    for (const tag of ['React', 'React Native', 'Linux Kernel']) {
+      assert.ok(!tags.includes(tag), `${tag} should not be suggested: ${JSON.stringify(clusters)}`);
+    }
+  });
+
+  it('never merges tags used together on one post and respects existing aliases', () => {
+    const clusters = suggestTagMerges(
+      { ...tagsMap, 'h.md': ['Compose', 'Docker Compose'] },
+      { minScore: 0.6, aliases: buildAliasLookup({ 树莓派: ['RaspberryPi'] }) }
+    );
+    assert.deepEqual(
+      clusters.map((cluster) => [cluster.canonical, cluster.variants.map((variant) => variant.tag)]),
+      [['Docker Compose', ['docker-compose']]]
+    );
+  });
+
+  it('writes a rename map that the rename command can apply, optionally confirmed by the model', async () => {
+    const server = await startMockServer({ replies: [{ content: '["2"]' }] });
+    const workspace = await copyFixture('blog');
+    try {
+      await fs.writeFile(path.join(workspace, 'tags.json'), JSON.stringify(tagsMap, null, 2), 'utf8');
+      const env = { TAG_SYNC_API_KEY: 'test-key', TAG_SYNC_BASE_URL: server.url };
+
+      const json = await runCli(workspace, ['tags', 'suggest-merges', '--format=json'], env);
+      assert.equal(json.code, 0, json.stderr);
+      assert.equal((JSON.parse(json.stdout) as unknown[]).length, 2);
+
+      const checked = await runCli(workspace, ['tags', 'suggest-merges', '--llm', '--format=rename', '--output=renames.json'], env);
+      assert.equal(checked.code, 0, checked.stderr);
+      assert.equal(server.requests.length, 1);
+      const [system, user] = server.requests[0].body.messages ?? [];
+      assert.equal(system?.role, 'system');
+      assert.notEqual(system?.content, DEFAULT_PROMPT_TEMPLATE.system);
+      assert.match(system?.content ?? '', /是否指同一个概念/);
+      assert.match(user?.content ?? '', /^以下每一行是一组可能重复的博客标签/);
+      assert.deepEqual(await readJson(path.join(workspace, 'renames.json')), { 树莓派: 'RaspberryPi' });
+
+      const renamed = await runCli(workspace, ['rename', '--map=renames.json'], env);
+      assert.equal(renamed.code, 0, renamed.stderr);
+      const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+      assert.deepEqual(tags['e.md'], ['嵌入式', 'Linux', 'RaspberryPi']);
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { startMockServer } from '../src/mock-server';
+import { estimateTokens, extractHeadings, splitIntoChunks, truncateToTokens } from '../src/tokens';
+import { copyFixture, readJson, removeDir, runCli } from './helpers';
+
+function longArticle(sections: number): string {
+  const parts: string[] = [];
+  for (let i = 1; i <= sections; i += 1) {
+    parts.push(`## 第 ${i} 节`, '', '这是一段用于测试分段的中文正文。'.repeat(20), '', '```bash\n# not a heading\necho hi\n```', '');
+  }
+  return parts.join('\n');
+}
+
+describe('token estimation', () => {
+  it('weighs CJK characters per model', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('abcdefgh'), 2);
+    assert.ok(estimateTokens('标签同步工具', 'qwen-max') < estimateTokens('标签同步工具', 'claude-3-5-sonnet'));
+  });
+
+  it('truncates text to the budget', () => {
+    const text = '标签'.repeat(500);
+    const truncated = truncateToTokens(text, 100, 'gpt-4');
+    assert.ok(estimateTokens(truncated, 'gpt-4') <= 100);
+    assert.ok(truncated.length > 50);
+  });
+
+  it('splits long content into chunks within the budget', () => {
+    const content = longArticle(8);
+    const chunks = splitIntoChunks(content, 300, 'gpt-4');
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(estimateTokens(chunk, 'gpt-4') <= 300);
+    }
+    assert.deepEqual(
+      extractHeadings(content),
+      Array.from({ length: 8 }, (_, index) => `## 第 ${index + 1} 节`)
+    );
+  });
+});
+
+describe('long post strategies', () => {
+  async function generateLongPost(strategy: string) {
+    const server = await startMockServer({ fallback: { content: '["分段测试"]' } });
+    const workspace = await copyFixture('blog');
+    try {
+      await fs.writeFile(
+        path.join(workspace, 'source/_posts/long-series.md'),
+        `---\ntitle: 长文\ntags: []\n---\n\n${longArticle(12)}`,
+        'utf8'
+      );
+      const env = {
+        TAG_SYNC_API_KEY: 'test-key',
+        TAG_SYNC_BASE_URL: server.url,
+        TAG_SYNC_MODEL: 'gpt-4',
+        TAG_SYNC_FILTER: 'long-series',
+        TAG_SYNC_CONTENT_TOKENS: '1000',
+        TAG_SYNC_LONG_POST_STRATEGY: strategy
+      };
+      const result = await runCli(workspace, ['generate'], env);
+      assert.equal(result.code, 0, result.stderr);
+      const tags = await readJson<Record<string, string[]>>(path.join(workspace, 'tags.json'));
+      return {
+        prompts: server.requests.map((request) => request.body.messages?.[1]?.content ?? ''),
+        tags: tags['source/_posts/long-series.md'],
+        stdout: result.stdout
+      };
+    } finally {
+      await server.close();
+      await removeDir(workspace);
+    }
+  }
+
+  it('tags each chunk and then reduces the candidates', async () => {
+    const { prompts, tags, stdout } = await generateLongPost('chunk');
+    assert.ok(prompts.length > 2);
+    // 同步摘要按请求计数，而不是按文章
+    assert.match(stdout, new RegExp(`llmCalls: ${prompts.length}\\b`));
+    assert.match(prompts[0], /第 1\/\d+ 部分/);
+    assert.match(prompts[prompts.length - 1], /已分段提取候选标签/);
+    assert.deepEqual(tags, ['分段测试']);
+  });
+
+  it('falls back to headings and excerpt', async () => {
+    const { prompts, tags } = await generateLongPost('outline');
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0], /以下为标题大纲与摘要/);
+    assert.match(prompts[0], /## 第 12 节/);
+    assert.doesNotMatch(prompts[0], /# not a heading/);
+    assert.deepEqual(tags, ['分段测试']);
+  });
+});